@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { SetupPhase } from './components/SetupPhase';
 import { StudioPhase } from './components/StudioPhase';
 import { AudioTrack, EncodingSettings, SetupImages } from './types';
+import { QueuedRender } from './services/renderQueue';
 
 function App() {
   const [step, setStep] = useState<'setup' | 'studio'>('setup');
@@ -13,6 +14,8 @@ function App() {
     loopCount: 1,
     audioBitrate: 128000
   });
+  // Kept here so queued jobs survive going back to Setup for the next playlist
+  const [renderQueue, setRenderQueue] = useState<QueuedRender[]>([]);
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 font-sans selection:bg-cyan-500 selection:text-white">
@@ -31,6 +34,8 @@ function App() {
           playlist={playlist} 
           initialImages={images}
           encodingSettings={encodingSettings}
+          renderQueue={renderQueue}
+          setRenderQueue={setRenderQueue}
           onBack={() => setStep('setup')}
         />
       )}
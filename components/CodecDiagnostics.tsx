@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { OutputResolution } from '../types';
+import { CANVAS_RESOLUTIONS } from '../constants';
+import { VIDEO_CODEC_LABELS, AUDIO_CODEC_LABELS } from '../services/codecs';
+import { CodecDiagnosticsReport, runCodecDiagnostics } from '../services/codecDiagnostics';
+import { RenderJobConfig } from '../services/renderProtocol';
+import { downloadBlob } from '../utils';
+import { Stethoscope, RefreshCw, Download, X } from './IconComponents';
+
+interface CodecDiagnosticsProps {
+  job: RenderJobConfig;
+  onClose: () => void;
+}
+
+const HARDWARE_LABELS: Record<HardwareAcceleration, string> = {
+  'no-preference': '자동',
+  'prefer-hardware': '하드웨어',
+  'prefer-software': '소프트웨어',
+};
+
+const SupportMark = ({ supported, error }: { supported: boolean; error?: string }) => (
+  <span className={supported ? 'text-green-400' : 'text-red-400'} title={error}>{supported ? '✓' : '✗'}</span>
+);
+
+export const CodecDiagnostics: React.FC<CodecDiagnosticsProps> = ({ job, onClose }) => {
+  const [report, setReport] = useState<CodecDiagnosticsReport | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [runId, setRunId] = useState(0);
+  const currentResolution = (Object.keys(CANVAS_RESOLUTIONS) as OutputResolution[])
+    .find(r => CANVAS_RESOLUTIONS[r].width === job.width && CANVAS_RESOLUTIONS[r].height === job.height) || '720p';
+  const [resolution, setResolution] = useState<OutputResolution>(currentResolution);
+
+  useEffect(() => {
+    let stale = false;
+    setReport(null);
+    setProgress({ done: 0, total: 0 });
+    runCodecDiagnostics(job, (done, total) => !stale && setProgress({ done, total }))
+        .then(result => !stale && setReport(result))
+        .catch(e => console.error("Codec diagnostics failed", e));
+    return () => { stale = true; };
+  }, [runId]);
+
+  const exportReport = () => {
+    if (!report) return;
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `spectrum-studio-codecs-${report.generatedAt.replace(/[:.]/g, '-')}.json`);
+  };
+
+  const videoRows = report ? report.video.filter(r => r.resolution === resolution) : [];
+  // One row per codec string; the hardware modes become columns
+  const codecStrings = [...new Set(videoRows.map(r => r.codecString))];
+  const selection = report?.selection;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="bg-gray-800 p-6 rounded-2xl border border-gray-700 shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-fadeIn">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-cyan-400 flex items-center gap-2">
+            <Stethoscope size={24}/> 코덱 진단
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white"><X size={20}/></button>
+        </div>
+
+        {!report ? (
+          <div className="py-12 text-center text-sm text-gray-400">
+            인코더 지원 여부 검사 중... {progress.total > 0 && `(${progress.done}/${progress.total})`}
+          </div>
+        ) : (
+          <div className="space-y-5 text-sm">
+            {/* Current selection */}
+            <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700 space-y-1">
+              <p className="text-xs text-gray-500 mb-2">현재 설정 ({job.width}x{job.height}, {job.fps}fps, {job.format.container.toUpperCase()}) 에서 선택될 코덱</p>
+              {selection?.error ? (
+                <p className="text-red-400">✗ {selection.error}</p>
+              ) : (
+                <>
+                  <p>영상: <span className="text-cyan-300 font-bold">{selection?.video && VIDEO_CODEC_LABELS[selection.video.codec]}</span> <span className="font-mono text-xs text-gray-500">{selection?.video?.codecString}</span></p>
+                  <p>오디오: <span className="text-cyan-300 font-bold">{selection?.audio && AUDIO_CODEC_LABELS[selection.audio.codec]}</span> <span className="font-mono text-xs text-gray-500">{selection?.audio?.codecString}</span></p>
+                </>
+              )}
+              {selection && selection.videoChain.length > 0 && (
+                <p className="text-xs text-gray-500 pt-1">
+                  시도 순서: {selection.videoChain.map(c => VIDEO_CODEC_LABELS[c]).join(' → ')}
+                </p>
+              )}
+            </div>
+
+            {/* Video matrix */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-gray-400">영상 인코더</span>
+                <select
+                  value={resolution}
+                  onChange={(e) => setResolution(e.target.value as OutputResolution)}
+                  className="bg-gray-900 border border-gray-600 rounded p-1.5 text-xs text-white focus:border-cyan-500 outline-none"
+                >
+                  {(Object.keys(CANVAS_RESOLUTIONS) as OutputResolution[]).map(r => (
+                    <option key={r} value={r}>{CANVAS_RESOLUTIONS[r].label}</option>
+                  ))}
+                </select>
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500 border-b border-gray-700">
+                    <th className="text-left py-1.5 font-normal">코덱</th>
+                    <th className="text-left py-1.5 font-normal">프로파일 / 레벨</th>
+                    {Object.values(HARDWARE_LABELS).map(label => <th key={label} className="py-1.5 font-normal">{label}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {codecStrings.map(codecString => {
+                    const rows = videoRows.filter(r => r.codecString === codecString);
+                    const picked = resolution === currentResolution && selection?.video?.codecString === codecString;
+                    return (
+                      <tr key={codecString} className={`border-b border-gray-700/50 ${picked ? 'bg-cyan-900/30' : ''}`}>
+                        <td className="py-1.5">{VIDEO_CODEC_LABELS[rows[0].codec]}</td>
+                        <td className="py-1.5">{rows[0].profile} <span className="font-mono text-gray-500">{codecString}</span></td>
+                        {(Object.keys(HARDWARE_LABELS) as HardwareAcceleration[]).map(mode => {
+                          const row = rows.find(r => r.hardwareAcceleration === mode);
+                          return <td key={mode} className="py-1.5 text-center">{row && <SupportMark supported={row.supported} error={row.error}/>}</td>;
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Audio */}
+            <div>
+              <span className="block text-gray-400 mb-2">오디오 인코더</span>
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                {report.audio.map(r => (
+                  <div key={`${r.codec}-${r.sampleRate}`} className="flex justify-between p-2 bg-gray-900/50 rounded border border-gray-700">
+                    <span>{AUDIO_CODEC_LABELS[r.codec]} · {r.sampleRate / 1000}kHz · {r.numberOfChannels}ch</span>
+                    <SupportMark supported={r.supported} error={r.error}/>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              {report.environment.webCodecs ? 'WebCodecs 사용 가능' : 'WebCodecs 미지원'} · CPU {report.environment.hardwareConcurrency}코어 · 파일 선택 {report.environment.saveFilePicker ? '지원' : '미지원'} · OPFS {report.environment.opfs ? '지원' : '미지원'}
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-5">
+          <button
+            onClick={() => setRunId(id => id + 1)}
+            disabled={!report}
+            className="flex-1 py-2.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded-lg text-sm flex items-center justify-center gap-2"
+          >
+            <RefreshCw size={16}/> 다시 검사
+          </button>
+          <button
+            onClick={exportReport}
+            disabled={!report}
+            className="flex-1 py-2.5 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 rounded-lg text-sm font-bold flex items-center justify-center gap-2"
+          >
+            <Download size={16}/> JSON 내보내기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
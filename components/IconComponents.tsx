@@ -36,7 +36,10 @@ import {
   Monitor,
   Gauge,
   ArrowUp,
-  ArrowDown
+  ArrowDown,
+  Stethoscope,
+  RefreshCw,
+  Dices
 } from 'lucide-react';
 
 export {
@@ -77,5 +80,8 @@ export {
   Monitor,
   Gauge,
   ArrowUp,
-  ArrowDown
+  ArrowDown,
+  Stethoscope,
+  RefreshCw,
+  Dices
 };
\ No newline at end of file
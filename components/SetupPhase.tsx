@@ -1,5 +1,6 @@
 import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { AudioTrack, EncodingSettings, SetupImages } from '../types';
+import { AUDIO_BITRATES } from '../constants';
 import { getAudioDuration, generateTimelineText, formatTime } from '../utils';
 import { Upload, Trash2, Copy, Music, Move, Video, ImageIcon, Layers, Settings } from './IconComponents';
 
@@ -261,12 +262,12 @@ export const SetupPhase: React.FC<SetupPhaseProps> = ({
 
                <div>
                  <label className="block text-xs font-medium text-gray-400 mb-2">오디오 품질 (VBR)</label>
-                 <div className="grid grid-cols-3 gap-2">
-                   {[96000, 128000, 192000].map((bitrate) => (
+                 <div className="grid grid-cols-5 gap-2">
+                   {AUDIO_BITRATES.map((bitrate) => (
                      <button
                        key={bitrate}
-                       onClick={() => setEncodingSettings(prev => ({ ...prev, audioBitrate: bitrate as 96000|128000|192000 }))}
-                       className={`py-2 px-3 rounded text-sm font-medium border transition-colors ${
+                       onClick={() => setEncodingSettings(prev => ({ ...prev, audioBitrate: bitrate }))}
+                       className={`py-2 px-1 rounded text-sm font-medium border transition-colors ${
                          encodingSettings.audioBitrate === bitrate 
                            ? 'bg-cyan-600 border-cyan-400 text-white shadow-[0_0_10px_rgba(8,145,178,0.5)]' 
                            : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
@@ -1,8 +1,32 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { AudioTrack, VisualSettings, EncodingSettings, SpectrumStyle, FilterPreset, ScreenEffect, ParticleEffect, SetupImages } from '../types';
-import { DEFAULT_VISUAL_SETTINGS } from '../constants';
+import { AudioTrack, VisualSettings, EncodingSettings, SpectrumStyle, FilterPreset, ScreenEffect, ParticleEffect, SetupImages, OutputResolution, OutputFormat, OutputContainer, VideoCodecId, AudioCodecId, AdvancedEncoderSettings, FrameRate, PathPoint } from '../types';
+import { DEFAULT_VISUAL_SETTINGS, CANVAS_RESOLUTIONS, DEFAULT_OUTPUT_FORMAT, DEFAULT_ADVANCED_ENCODER_SETTINGS, FRAME_RATES, AUDIO_BITRATES, AUDIO_SAMPLE_RATES, RENDER_WORKER_COUNTS, FFT_SIZES, WINDOW_FUNCTIONS, FREQUENCY_SCALES, STEREO_MODES, STEREO_SPECTRUM_STYLES, SPECTROGRAM_COLOR_MAPS } from '../constants';
+import { scaleBitrate, selectVideoCodec, selectAudioCodec, getAudioFrameSamples, CONTAINER_CODECS, CONTAINER_FILE_TYPES, VIDEO_CODEC_LABELS, AUDIO_CODEC_LABELS } from '../services/codecs';
+import { RenderWorkerClient, createRenderWorker } from '../services/renderWorkerClient';
+import { RenderOutputTarget, RenderJobConfig, RenderSegment, getThumbnailSize, isResumableJob } from '../services/renderProtocol';
+import { RenderControl, createRenderControl, isAbortError } from '../services/renderControl';
+import { RenderThroughput, RenderStatsTracker, createRenderStatsTracker } from '../services/renderStats';
+import { RenderPlan, RenderCheckpoint, getPlaylistEntries, matchesPlaylist, loadRenderCheckpoint, saveRenderJob, saveRenderProgress, clearRenderCheckpoint } from '../services/renderCheckpoint';
+import {
+  supportsSaveFilePicker, supportsOpfs, estimateOutputBytes, pickFallbackOutput, saveRenderOutput, MEMORY_OUTPUT_MAX_BYTES,
+  getWorkFileTarget, requestWritePermission, deliverWorkFile, downloadPartialWorkFile, removeWorkFile, removePickedFile,
+  getSegmentTarget, readSegmentOutput, saveStitchedOutput, getRenderFilesSize, removeRenderFiles, removeStaleRenderFiles
+} from '../services/renderOutput';
+import { RENDER_CHANNELS, decodeTrack } from '../services/audioSegments';
+import { renderTimelineRange, getTimelineRange } from '../services/timelineRender';
+import { planRenderRanges, createSceneSimulation } from '../services/parallelRender';
+import { Mp4Segment, VIDEO_TRACK_ID, AUDIO_TRACK_ID } from '../services/fragmentedMp4';
+import { createRandomSeed } from '../services/scene';
+import { TIME_DOMAIN_STYLES } from '../services/waveform';
+import { getCoverArt, usesCoverArt } from '../services/coverArt';
+import { normalizePolylines } from '../services/spectrumPath';
+import { importSvgPath } from '../services/svgPath';
+import { TrackSpectrum, SpectrumCacheParams, getTrackSpectrum, getSpectrumCacheParams, getSpectrumChannels } from '../services/spectrumCache';
+import { LiveSpectrum, createLiveSpectrum } from '../services/liveSpectrum';
+import { QueuedRender, RenderOutcome, RenderQueueSummary, MAX_QUEUE_ATTEMPTS, createQueuedRender, summarizeQueue } from '../services/renderQueue';
+import { formatTime, formatTimeLong, formatBytes, parseTime, hasHeldDownloads, releaseDownloads } from '../utils';
 import { VisualizerCanvas, VisualizerCanvasRef } from './VisualizerCanvas';
-import { Muxer, FileSystemWritableFileStreamTarget } from 'mp4-muxer';
+import { CodecDiagnostics } from './CodecDiagnostics';
 import { 
   Play, Pause, Download, 
   Settings, ImageIcon, Layers, Wand2, Palette,
@@ -10,85 +34,16 @@ import {
   X, CloudSnow, CloudFog, Flower2, Sun,
   Activity, Film, Zap, PartyPopper, Check,
   Sunrise, Camera, ScanLine, Monitor, Gauge,
-  ArrowUp, ArrowDown
+  ArrowUp, ArrowDown, Dices
 } from './IconComponents';
 
-// Add type definitions for WebCodecs API (AudioEncoder/AudioData) as they might be missing in the environment
-declare global {
-  class AudioEncoder {
-    constructor(init: {
-      output: (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) => void;
-      error: (error: DOMException) => void;
-    });
-    configure(config: AudioEncoderConfig): void;
-    encode(data: AudioData): void;
-    flush(): Promise<void>;
-    close(): void;
-    readonly state: "unconfigured" | "configured" | "closed";
-    readonly encodeQueueSize: number;
-  }
-
-  class AudioData {
-    constructor(init: AudioDataInit);
-    readonly format: "u8" | "s16" | "s32" | "f32" | "u8-planar" | "s16-planar" | "s32-planar" | "f32-planar";
-    readonly sampleRate: number;
-    readonly numberOfFrames: number;
-    readonly numberOfChannels: number;
-    readonly duration: number;
-    readonly timestamp: number;
-    allocationSize(options: AudioDataCopyToOptions): number;
-    copyTo(destination: BufferSource, options: AudioDataCopyToOptions): void;
-    clone(): AudioData;
-    close(): void;
-  }
-
-  interface AudioEncoderConfig {
-    codec: string;
-    sampleRate?: number;
-    numberOfChannels?: number;
-    bitrate?: number;
-  }
-
-  interface AudioDataInit {
-    format: "u8" | "s16" | "s32" | "f32" | "u8-planar" | "s16-planar" | "s32-planar" | "f32-planar";
-    sampleRate: number;
-    numberOfFrames: number;
-    numberOfChannels: number;
-    timestamp: number;
-    data: BufferSource;
-    transfer?: Transferable[];
-  }
-
-  interface AudioDataCopyToOptions {
-    planeIndex: number;
-    frameOffset?: number;
-    frameCount?: number;
-    format?: "u8" | "s16" | "s32" | "f32" | "u8-planar" | "s16-planar" | "s32-planar" | "f32-planar";
-  }
-
-  interface EncodedAudioChunk {
-    readonly type: 'key' | 'delta';
-    readonly timestamp: number;
-    readonly duration?: number;
-    readonly byteLength: number;
-    copyTo(destination: BufferSource): void;
-  }
-
-  interface EncodedAudioChunkMetadata {
-    decoderConfig?: {
-      codec: string;
-      sampleRate: number;
-      numberOfChannels: number;
-      description?: BufferSource;
-    };
-  }
-}
-
 interface StudioPhaseProps {
   playlist: AudioTrack[];
   onBack: () => void;
   initialImages: SetupImages;
   encodingSettings: EncodingSettings;
+  renderQueue: QueuedRender[];
+  setRenderQueue: React.Dispatch<React.SetStateAction<QueuedRender[]>>;
 }
 
 const PALETTE_COLORS = [
@@ -102,18 +57,30 @@ const PALETTE_COLORS = [
 interface RenderConfig {
   id: 'high' | 'balanced' | 'fast';
   label: string;
-  fps: number;
+  fps: FrameRate;
   bitrate: number;
   description: string;
 }
 
+// Which part of the timeline to render; anything but 'full' makes a preview clip
+type RenderRangePreset = 'full' | 'first' | 'boundary' | 'custom';
+
+const PREVIEW_CLIP_SECONDS = 30;
+// Seconds before and after a track boundary
+const BOUNDARY_CLIP_PADDING = 15;
+
 const RENDER_PRESETS: RenderConfig[] = [
   { id: 'high', label: '고화질 (60fps)', fps: 60, bitrate: 8000000, description: '부드러운 움직임, 고사양 PC 권장' },
   { id: 'balanced', label: '일반 (30fps)', fps: 30, bitrate: 5000000, description: '권장 설정, 멈춤 없이 안정적' },
   { id: 'fast', label: '저사양 (30fps)', fps: 30, bitrate: 2500000, description: '빠른 처리, 용량 절약' },
 ];
 
-export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlaylist, onBack, initialImages, encodingSettings }) => {
+// The files of the output timeline in order, the playlist repeated loopCount times
+const getTimelineFiles = (tracks: AudioTrack[], loopCount: number) => {
+  return Array.from({ length: loopCount }, () => tracks.map(track => track.file)).flat();
+};
+
+export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlaylist, onBack, initialImages, encodingSettings, renderQueue, setRenderQueue }) => {
   // State
   const [playlist, setPlaylist] = useState<AudioTrack[]>(initialPlaylist);
   const [settings, setSettings] = useState<VisualSettings>(() => ({
@@ -130,17 +97,55 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
   const [isRendering, setIsRendering] = useState(false);
   const [showRenderModal, setShowRenderModal] = useState(false);
   const [renderFilename, setRenderFilename] = useState("My_Spectrum_Video");
-  const [renderProgress, setRenderProgress] = useState(0);
+  const [rangePreset, setRangePreset] = useState<RenderRangePreset>('full');
+  const [boundaryIndex, setBoundaryIndex] = useState(0);
+  const [customRange, setCustomRange] = useState({ start: '00:00', end: '00:30' });
+  const [renderStats, setRenderStats] = useState<RenderThroughput | null>(null);
   const [renderStatusText, setRenderStatusText] = useState(""); 
-  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [isRenderPaused, setIsRenderPaused] = useState(false);
+  const [activeRender, setActiveRender] = useState<RenderPlan | null>(null);
+  const [pendingCheckpoint, setPendingCheckpoint] = useState<RenderCheckpoint | null>(null);
+  // Downloaded render outputs still held for their downloads: OPFS bytes, and whether any download URLs are
+  const [heldOutputs, setHeldOutputs] = useState({ bytes: 0, downloads: false });
+  // Cached analysis of the current track for the preview, and the background pass over the playlist
+  const [previewSpectrum, setPreviewSpectrum] = useState<TrackSpectrum | null>(null);
+  // The playing audio split into left and right and analysed live, until previewSpectrum is ready
+  const [liveSpectrum, setLiveSpectrum] = useState<LiveSpectrum | null>(null);
+  // The current track decoded at the render rate, only while a time-domain style is shown
+  const [previewAudio, setPreviewAudio] = useState<AudioBuffer | null>(null);
+  const [previewCover, setPreviewCover] = useState<Blob | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<{ done: number; total: number } | null>(null);
+  // Points of a path being drawn on the preview, in output pixels; null when not drawing
+  const [pathDraft, setPathDraft] = useState<PathPoint[] | null>(null);
   
   // Render Quality State
   const [selectedPreset, setSelectedPreset] = useState<RenderConfig>(RENDER_PRESETS[1]); 
+  const [outputResolution, setOutputResolution] = useState<OutputResolution>('1080p');
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(DEFAULT_OUTPUT_FORMAT);
   const [usedCodec, setUsedCodec] = useState<string>("");
+  const [encoderSettings, setEncoderSettings] = useState<AdvancedEncoderSettings>(() => ({
+    ...DEFAULT_ADVANCED_ENCODER_SETTINGS,
+    fps: RENDER_PRESETS[1].fps,
+    audioBitrate: encodingSettings.audioBitrate,
+  }));
+  const [showAdvancedEncoder, setShowAdvancedEncoder] = useState(false);
+  const [showCodecDiagnostics, setShowCodecDiagnostics] = useState(false);
+  const [showRenderQueue, setShowRenderQueue] = useState(false);
+  const [isQueueRunning, setIsQueueRunning] = useState(false);
+  const [queueSummary, setQueueSummary] = useState<RenderQueueSummary | null>(null);
+  // Result of the isConfigSupported check for the current dialog settings
+  const [encoderCheck, setEncoderCheck] = useState<{ status: 'checking' | 'ok' | 'error'; message: string }>({ status: 'checking', message: '' });
 
   // Refs
   const audioRef = useRef<HTMLAudioElement>(null);
   const canvasRef = useRef<VisualizerCanvasRef>(null);
+  const thumbnailRef = useRef<HTMLCanvasElement>(null);
+  const renderControlRef = useRef<RenderControl | null>(null);
+  const renderOutputRef = useRef<RenderOutputTarget | null>(null);
+  const deleteOnCancelRef = useRef(false);
+  const renderStatsRef = useRef<RenderStatsTracker | null>(null);
+  // Mirrors renderQueue so the queue runner sees changes between awaits
+  const renderQueueRef = useRef(renderQueue);
   
   // Audio Graph Refs
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -150,12 +155,76 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
   // Calculations
   const playlistDuration = useMemo(() => playlist.reduce((acc, t) => acc + t.duration, 0), [playlist]);
   const totalDuration = useMemo(() => playlistDuration * encodingSettings.loopCount, [playlistDuration, encodingSettings.loopCount]);
+  const { width: outputWidth, height: outputHeight } = CANVAS_RESOLUTIONS[outputResolution];
+  const presetBitrate = scaleBitrate(selectedPreset.bitrate, outputWidth, outputHeight);
+  const videoBitrate = encoderSettings.videoBitrate ?? presetBitrate;
+  const outputFileType = CONTAINER_FILE_TYPES[outputFormat.container];
+
+  // Track changes on the output timeline, for the "around a boundary" preset
+  const timelineBoundaries = useMemo(() => {
+    const tracks = Array.from({ length: encodingSettings.loopCount }, () => playlist).flat();
+    const boundaries: Array<{ time: number; label: string }> = [];
+    let time = 0;
+    tracks.forEach((track, i) => {
+        time += track.duration;
+        if (i < tracks.length - 1) boundaries.push({ time, label: `${track.name} → ${tracks[i + 1].name}` });
+    });
+    return boundaries;
+  }, [playlist, encodingSettings.loopCount]);
+
+  // In/out points in seconds; null renders the whole timeline
+  const selectedRange = useMemo(() => {
+    if (rangePreset === 'full') return null;
+    if (rangePreset === 'first') return { start: 0, end: Math.min(PREVIEW_CLIP_SECONDS, totalDuration) };
+    if (rangePreset === 'boundary') {
+        const time = timelineBoundaries[boundaryIndex]?.time ?? 0;
+        return { start: Math.max(0, time - BOUNDARY_CLIP_PADDING), end: Math.min(totalDuration, time + BOUNDARY_CLIP_PADDING) };
+    }
+    return { start: parseTime(customRange.start) ?? NaN, end: parseTime(customRange.end) ?? NaN };
+  }, [rangePreset, boundaryIndex, customRange, timelineBoundaries, totalDuration]);
+  const isRangeValid = !selectedRange || (selectedRange.start < selectedRange.end && selectedRange.end <= totalDuration);
 
   // Helpers
   const updateSetting = <K extends keyof VisualSettings>(key: K, value: VisualSettings[K]) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
 
+  // Lays the spectrum along a path given in output pixels, where it was drawn
+  const applyDrawnPath = (points: PathPoint[]) => {
+    const { path, center, size } = normalizePolylines([points]);
+    setSettings(prev => ({
+      ...prev,
+      spectrumPath: path,
+      spectrumCenter: false,
+      spectrumPosition: { x: (center.x / outputWidth) * 100, y: (center.y / outputHeight) * 100 },
+      spectrumWidth: (size / outputWidth) * 100,
+    }));
+  };
+
+  const handlePathDraftClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = { x: ((e.clientX - rect.left) / rect.width) * outputWidth, y: ((e.clientY - rect.top) / rect.height) * outputHeight };
+    setPathDraft(prev => prev && [...prev, point]);
+  };
+
+  const finishPathDraft = () => {
+    // A double-click also lands as two clicks on the same spot
+    const points = (pathDraft ?? []).filter((p, i, all) => i === 0 || p.x !== all[i - 1].x || p.y !== all[i - 1].y);
+    if (points.length >= 2) applyDrawnPath(points);
+    setPathDraft(null);
+  };
+
+  const handleSvgPathUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      updateSetting('spectrumPath', await importSvgPath(file));
+    } catch (err: any) {
+      alert(`❌ SVG 경로를 가져오지 못했습니다. 화면에 그려지는 도형(path, line, circle 등)이 있는 SVG 파일인지 확인해주세요.\n${err.message}`);
+    }
+  };
+
   const handleAudioInit = () => {
     if (!audioContextRef.current) {
       const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
@@ -163,6 +232,15 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
     }
   };
 
+  // Escape abandons a path being drawn
+  const isDrawingPath = pathDraft !== null;
+  useEffect(() => {
+    if (!isDrawingPath) return;
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') setPathDraft(null); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isDrawingPath]);
+
   // Audio Graph Setup
   useEffect(() => {
     handleAudioInit();
@@ -176,19 +254,16 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
         const source = ctx.createMediaElementSource(audioRef.current);
         sourceNodeRef.current = source;
         
-        // 1. Analyser (Shared)
-        const ana = ctx.createAnalyser();
-        ana.fftSize = 2048;
-        source.connect(ana);
-        setAnalyser(ana);
-        
-        // 2. Speaker Output (via GainNode for Muting)
+        // Speaker Output (via GainNode for Muting)
         const gain = ctx.createGain();
         gain.gain.value = 1.0; // Default Unmuted
-        ana.connect(gain);
+        source.connect(gain);
         gain.connect(ctx.destination);
         gainNodeRef.current = gain;
 
+        // Taken before the mute, so a muted preview still moves
+        setLiveSpectrum(createLiveSpectrum(ctx, source));
+
       } catch (e) { console.error("Audio graph error", e); }
     }
   }, [audioRef.current]);
@@ -240,6 +315,73 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
     }
   }, [currentTrackIndex, currentLoopIteration, playlist]);
 
+  // Renders look frames up by these, so the preview uses the render's rate and frame rate.
+  // Per-channel spectra come from the decoded PCM like the mono mix, so the preview's stereo
+  // matches the export's; the live ChannelSplitterNode analysis only stands in until then.
+  const analysedChannels = getSpectrumChannels(settings).join('+');
+  const spectrumParams = useMemo<SpectrumCacheParams>(
+    () => getSpectrumCacheParams(settings, encoderSettings.sampleRate, encoderSettings.fps),
+    [settings.fftSize, settings.fftWindow, encoderSettings.sampleRate, encoderSettings.fps, analysedChannels]
+  );
+
+  // Analyse every track once after import (or when the parameters change)
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      for (let i = 0; i < playlist.length && !cancelled; i++) {
+        setAnalysisProgress({ done: i, total: playlist.length });
+        await getTrackSpectrum(playlist[i].file, spectrumParams)
+            .catch(e => console.error("Spectrum analysis failed", playlist[i].name, e));
+      }
+      if (!cancelled) setAnalysisProgress(null);
+    })();
+    return () => { cancelled = true; };
+  }, [playlist, spectrumParams]);
+
+  useEffect(() => {
+    const track = playlist[currentTrackIndex];
+    setPreviewSpectrum(null);
+    if (!track) return;
+    let cancelled = false;
+    getTrackSpectrum(track.file, spectrumParams)
+        .then(spectrum => { if (!cancelled) setPreviewSpectrum(spectrum); })
+        .catch(e => console.error("Preview analysis error", e));
+    return () => { cancelled = true; };
+  }, [currentTrackIndex, playlist, spectrumParams]);
+
+  const needsWaveform = TIME_DOMAIN_STYLES.includes(settings.spectrumStyle);
+  useEffect(() => {
+    const track = playlist[currentTrackIndex];
+    setPreviewAudio(null);
+    if (!track || !needsWaveform) return;
+    let cancelled = false;
+    decodeTrack(track.file, encoderSettings.sampleRate)
+        .then(buffer => { if (!cancelled) setPreviewAudio(buffer); })
+        .catch(e => console.error("Preview decode error", e));
+    return () => { cancelled = true; };
+  }, [currentTrackIndex, playlist, needsWaveform, encoderSettings.sampleRate]);
+
+  const needsCover = usesCoverArt(settings);
+  useEffect(() => {
+    const track = playlist[currentTrackIndex];
+    setPreviewCover(null);
+    if (!track || !needsCover) return;
+    let cancelled = false;
+    getCoverArt(track.file).then(cover => { if (!cancelled) setPreviewCover(cover); });
+    return () => { cancelled = true; };
+  }, [currentTrackIndex, playlist, needsCover]);
+
+  const getPlaybackTime = () => audioRef.current?.currentTime ?? 0;
+  // Where the current track starts on the output timeline, for the preview's animation clock
+  const trackOffset = useMemo(
+    () => currentLoopIteration * playlistDuration + playlist.slice(0, currentTrackIndex).reduce((acc, t) => acc + t.duration, 0),
+    [playlist, playlistDuration, currentTrackIndex, currentLoopIteration]
+  );
+  const timelineFiles = useMemo(
+    () => getTimelineFiles(playlist, encodingSettings.loopCount),
+    [playlist, encodingSettings.loopCount]
+  );
+
   // Playlist Management
   const removeTrack = (id: string) => {
     setPlaylist(prev => prev.filter(t => t.id !== id));
@@ -253,7 +395,54 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
     setPlaylist(newPlaylist);
   };
 
-  // --- NEW: OFFLINE Rendering Logic (HEVC + AAC + MP4 Muxer) ---
+  // Offline Rendering (WebCodecs + MP4/WebM Muxer)
+
+  // Interrupted resumable render for the current playlist, if any
+  const refreshPendingCheckpoint = () => {
+    loadRenderCheckpoint()
+        .then(checkpoint => setPendingCheckpoint(checkpoint?.progress && matchesPlaylist(checkpoint, playlist) ? checkpoint : null))
+        .catch(e => console.warn("Render checkpoint unavailable", e));
+  };
+
+  useEffect(refreshPendingCheckpoint, [playlist]);
+
+  const refreshHeldOutputs = () => {
+    getRenderFilesSize()
+        .then(bytes => setHeldOutputs({ bytes, downloads: hasHeldDownloads() }))
+        .catch(e => console.warn("Render files unavailable", e));
+  };
+
+  // The work file an interrupted render resumes from, whichever playlist it belongs to
+  const getCheckpointFiles = async () => {
+    const checkpoint = await loadRenderCheckpoint().catch(() => null);
+    return checkpoint?.job.output.type === 'opfs' ? [checkpoint.job.output.fileName] : [];
+  };
+
+  useEffect(() => {
+    getCheckpointFiles()
+        .then(removeStaleRenderFiles)
+        .catch(e => console.warn("Render file cleanup failed", e))
+        .finally(refreshHeldOutputs);
+  }, []);
+
+  // Downloads read their files for as long as they take, so these are only removed on request
+  const discardHeldOutputs = async () => {
+    if (!confirm("렌더링 결과 다운로드가 모두 끝났습니까? 임시 파일을 삭제하면 진행 중인 다운로드가 실패할 수 있습니다.")) return;
+    releaseDownloads();
+    await removeRenderFiles(await getCheckpointFiles()).catch(e => console.warn("Render file cleanup failed", e));
+    refreshHeldOutputs();
+  };
+
+  // Keep the codec choices valid for the selected container
+  const selectContainer = (container: OutputContainer) => {
+    const { video, audio } = CONTAINER_CODECS[container];
+    setOutputFormat(prev => ({
+      ...prev,
+      container,
+      videoCodec: video.includes(prev.videoCodec) ? prev.videoCodec : video[0],
+      audioCodec: audio.includes(prev.audioCodec) ? prev.audioCodec : audio[0],
+    }));
+  };
 
   const initiateRender = () => {
     setIsPlaying(false);
@@ -261,281 +450,506 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
     setShowRenderModal(true);
   };
 
-  const startOfflineRendering = async () => {
-    if (!('showSaveFilePicker' in window)) {
-        alert("이 브라우저는 파일 저장 API를 지원하지 않습니다. (Chrome/Edge 사용 권장)");
-        return;
-    }
+  const drawRenderThumbnail = (bitmap: ImageBitmap) => {
+    const ctx = thumbnailRef.current?.getContext('bitmaprenderer');
+    if (ctx) ctx.transferFromImageBitmap(bitmap);
+    else bitmap.close();
+  };
 
-    let fileHandle: any;
-    try {
-        fileHandle = await (window as any).showSaveFilePicker({
-            suggestedName: `${renderFilename.replace(/[^a-z0-9]/gi, '_')}.mp4`,
-            types: [{ description: 'MP4 Video', accept: { 'video/mp4': ['.mp4'] } }],
-        });
-    } catch (err) { return; } // Cancelled
+  const updateEncoderSetting = <K extends keyof AdvancedEncoderSettings>(key: K, value: AdvancedEncoderSettings[K]) => {
+    setEncoderSettings(prev => ({ ...prev, [key]: value }));
+  };
 
-    setShowRenderModal(false);
-    setIsRendering(true);
-    setRenderProgress(0);
-    setRenderStatusText("코덱 확인 및 오디오 준비 중...");
+  // Presets fill in the frame rate and go back to the automatic bitrate
+  const selectPreset = (preset: RenderConfig) => {
+    setSelectedPreset(preset);
+    setEncoderSettings(prev => ({ ...prev, fps: preset.fps, videoBitrate: null }));
+  };
+
+  // Any manual frame rate or bitrate makes the settings custom
+  const isPresetActive = (preset: RenderConfig) => {
+    return selectedPreset.id === preset.id && encoderSettings.fps === preset.fps && encoderSettings.videoBitrate === null;
+  };
 
+  const buildRenderJob = (output: RenderOutputTarget): RenderJobConfig => ({
+    settings,
+    format: outputFormat,
+    width: outputWidth,
+    height: outputHeight,
+    fps: encoderSettings.fps,
+    videoBitrate,
+    videoOptions: {
+        bitrateMode: encoderSettings.bitrateMode,
+        quantizer: encoderSettings.quantizer,
+        hardwareAcceleration: encoderSettings.hardwareAcceleration,
+        latencyMode: encoderSettings.latencyMode,
+    },
+    keyframeInterval: encoderSettings.keyframeInterval,
+    audioBitrate: encoderSettings.audioBitrate,
+    sampleRate: encoderSettings.sampleRate,
+    numberOfChannels: RENDER_CHANNELS,
+    output,
+  });
+
+  // Asks isConfigSupported along the fallback chains; resolves with the codecs the render would use
+  const checkEncoderSupport = async (job: RenderJobConfig) => {
+    const { format } = job;
+    const video = await selectVideoCodec(format.videoCodec, format.container, job.width, job.height, job.fps, job.videoBitrate, job.videoOptions, true);
+    const audio = await selectAudioCodec(format.audioCodec, format.container, job.sampleRate, job.numberOfChannels, job.audioBitrate);
+    return `${video.label} + ${audio.label}`;
+  };
+
+  useEffect(() => {
+    if (!showRenderModal) return;
+    let stale = false;
+    setEncoderCheck({ status: 'checking', message: '' });
+    const timer = window.setTimeout(() => {
+        checkEncoderSupport(buildRenderJob({ type: 'memory' }))
+            .then(label => !stale && setEncoderCheck({ status: 'ok', message: label }))
+            .catch(e => !stale && setEncoderCheck({ status: 'error', message: e.message }));
+    }, 300);
+    return () => {
+        stale = true;
+        window.clearTimeout(timer);
+    };
+  }, [showRenderModal, outputFormat, outputWidth, outputHeight, encoderSettings, videoBitrate]);
+
+  // Validates the settings, asks for the output and captures everything a render needs
+  const prepareRenderPlan = async (): Promise<RenderPlan | null> => {
     try {
-        // 1. Prepare Audio Buffers
-        const audioContext = new AudioContext();
-        const trackBuffers: AudioBuffer[] = [];
-        
-        for (const track of playlist) {
-            const arrayBuffer = await track.file.arrayBuffer();
-            const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-            trackBuffers.push(audioBuffer);
-        }
-        audioContext.close();
+        await checkEncoderSupport(buildRenderJob({ type: 'memory' }));
+    } catch (e: any) {
+        alert(`❌ 이 브라우저에서 지원하지 않는 인코더 설정입니다.\n${e.message}`);
+        return null;
+    }
 
-        // 2. Setup OfflineAudioContext
-        const sampleRate = 48000;
-        const totalDurationSamples = Math.ceil(totalDuration * sampleRate);
-        const offlineCtx = new OfflineAudioContext(2, totalDurationSamples, sampleRate);
-        
-        let startTime = 0;
-        for (let loop = 0; loop < encodingSettings.loopCount; loop++) {
-            for (const buffer of trackBuffers) {
-                const source = offlineCtx.createBufferSource();
-                source.buffer = buffer;
-                source.connect(offlineCtx.destination);
-                source.start(startTime);
-                startTime += buffer.duration;
-            }
-        }
+    if (!isRangeValid) {
+        alert("❌ 렌더링 범위가 올바르지 않습니다. 시작 시간은 끝 시간보다 앞서야 하고 전체 길이를 넘을 수 없습니다.");
+        return null;
+    }
+    // A preview clip is a single short range: no parallel workers, nothing to resume
+    const clip = selectedRange && getTimelineRange(selectedRange.start, selectedRange.end, encoderSettings.sampleRate, encoderSettings.fps);
+    const renderDuration = selectedRange ? selectedRange.end - selectedRange.start : totalDuration;
+    const clipSuffix = selectedRange ? `_clip_${formatTime(selectedRange.start).replace(':', 'm')}s` : '';
+    const outputName = `${renderFilename.replace(/[^a-z0-9]/gi, '_')}${clipSuffix}${outputFileType.extension}`;
+    // Parallel ranges are only joined into one MP4 at the end, so they cannot be resumed
+    const parallel = !clip && encoderSettings.workerCount > 1 && outputFormat.container === 'mp4';
+    // Fragmented MP4 in OPFS survives crashes and can be resumed
+    const resumable = !clip && !parallel && outputFormat.container === 'mp4' && outputFormat.fragmented && supportsOpfs();
+    let output: RenderOutputTarget;
+
+    if (resumable && pendingCheckpoint && !confirm("이어서 렌더링할 수 있는 작업이 있습니다. 새로 시작하면 해당 작업은 삭제됩니다. 계속하시겠습니까?")) {
+        return null;
+    }
 
-        const analyserNode = offlineCtx.createAnalyser();
-        analyserNode.fftSize = 2048;
-        
-        const masterGain = offlineCtx.createGain();
-        masterGain.connect(offlineCtx.destination);
-        masterGain.connect(analyserNode);
-
-        startTime = 0;
-        for (let loop = 0; loop < encodingSettings.loopCount; loop++) {
-            for (const buffer of trackBuffers) {
-                const source = offlineCtx.createBufferSource();
-                source.buffer = buffer;
-                source.connect(masterGain);
-                source.start(startTime);
-                startTime += buffer.duration;
-            }
+    if (supportsSaveFilePicker()) {
+        try {
+            const fileHandle: FileSystemFileHandle = await (window as any).showSaveFilePicker({
+                suggestedName: outputName,
+                types: [{ description: outputFileType.description, accept: { [outputFileType.mimeType]: [outputFileType.extension] } }],
+            });
+            output = { type: 'file', fileHandle };
+        } catch (err) { return null; } // Cancelled
+    } else if (resumable || parallel) {
+        output = { type: 'memory' }; // Downloaded from the work file or the stitched ranges when done
+    } else {
+        // Firefox/Safari: render to OPFS or memory, then download
+        const estimatedBytes = estimateOutputBytes(videoBitrate, encoderSettings.audioBitrate, renderDuration);
+        output = pickFallbackOutput(estimatedBytes, outputFileType.extension);
+        if (output.type === 'memory' && estimatedBytes > MEMORY_OUTPUT_MAX_BYTES
+            && !confirm(`이 브라우저는 파일 저장 API를 지원하지 않아 약 ${Math.round(estimatedBytes / 1024 / 1024)}MB 영상을 메모리에 렌더링합니다. 브라우저가 느려지거나 중단될 수 있습니다. 계속하시겠습니까?`)) {
+            return null;
         }
+    }
 
-        // 3. Determine Supported Video Codec (HEVC vs AVC)
-        const fps = selectedPreset.fps;
-        const width = 1280; 
-        const height = 720;
-        
-        // Define Configs
-        const hevcConfig: VideoEncoderConfig = {
-            codec: 'hvc1.1.6.L120.B0', // HEVC Main Profile, Level 4.0
-            width,
-            height,
-            bitrate: selectedPreset.bitrate,
-            framerate: fps,
-        };
+    const job = buildRenderJob(resumable ? getWorkFileTarget(outputFileType.extension) : output);
+    if (clip) job.segment = { startFrame: clip.startFrame, scene: null, encoder: null };
+
+    return {
+        job,
+        destination: output,
+        fileName: outputName,
+        mimeType: outputFileType.mimeType,
+        playlist: getPlaylistEntries(playlist),
+        loopCount: encodingSettings.loopCount,
+        totalDuration: renderDuration,
+        workerCount: parallel ? encoderSettings.workerCount : 1,
+        range: clip ?? undefined,
+    };
+  };
 
-        const avcConfig: VideoEncoderConfig = {
-            codec: 'avc1.640028', // H.264 High Profile
-            width,
-            height,
-            bitrate: selectedPreset.bitrate,
-            framerate: fps,
-        };
+  const runPlan = (plan: RenderPlan, tracks: AudioTrack[]) => {
+    return plan.workerCount > 1 ? runParallelRender(plan, tracks) : runRender(plan, null, tracks);
+  };
 
-        let activeConfig = avcConfig;
-        let activeCodecMuxerString = 'avc1';
+  const reportRenderOutcome = (plan: RenderPlan, outcome: RenderOutcome) => {
+    if (outcome.status === 'done') {
+        alert(`✅ 렌더링 완료!\n[${outcome.codec}] 코덱 사용\n${plan.fileName} 파일이 생성되었습니다.`);
+    } else if (outcome.status === 'failed') {
+        alert(`❌ 렌더링 중 오류 발생: ${outcome.message}${isResumableJob(plan.job) ? "\n마지막으로 저장된 지점부터 이어서 렌더링할 수 있습니다." : ""}`);
+    }
+  };
 
-        // TEST HEVC Support Robustly
-        try {
-            // Static check
-            const support = await VideoEncoder.isConfigSupported(hevcConfig);
-            if (!support.supported) throw new Error("HEVC unsupported by browser");
-
-            // Runtime check (Dummy Encoder)
-            // Some browsers pass static check but fail on configure if hardware resources are missing
-            const dummyEncoder = new VideoEncoder({
-                output: () => {}, 
-                error: (e) => console.error("HEVC Dummy Error", e)
-            });
-            
-            await dummyEncoder.configure(hevcConfig);
-            if (dummyEncoder.state === "configured") {
-                 activeConfig = hevcConfig;
-                 activeCodecMuxerString = 'hvc1';
-                 dummyEncoder.close();
-            } else {
-                 throw new Error("HEVC configuration failed");
-            }
+  const startOfflineRendering = async () => {
+    const plan = await prepareRenderPlan();
+    if (plan) reportRenderOutcome(plan, await runPlan(plan, playlist));
+  };
 
-        } catch (e) {
-            console.warn("HEVC check failed, falling back to AVC.", e);
-            
-            // Fallback Check for AVC High Profile
-            try {
-                const avcSupport = await VideoEncoder.isConfigSupported(avcConfig);
-                if (!avcSupport.supported) {
-                    console.warn("AVC High Profile unsupported, falling back to Baseline.");
-                    avcConfig.codec = 'avc1.42001f'; // Baseline
-                }
-                activeConfig = avcConfig;
-                activeCodecMuxerString = 'avc1';
-            } catch (e2) {
-                console.error("Critical: AVC check failed", e2);
-            }
-        }
-        
-        setUsedCodec(activeCodecMuxerString === 'hvc1' ? 'HEVC (H.265)' : 'AVC (H.264)');
-
-        // 4. Setup Muxer with validated codec
-        const muxer = new Muxer({
-            target: new FileSystemWritableFileStreamTarget(await fileHandle.createWritable()),
-            video: {
-                codec: activeCodecMuxerString === 'hvc1' ? 'hvc1' : 'avc1', 
-                width,
-                height,
-                frameRate: fps
-            },
-            audio: {
-                codec: 'mp4a.40.2', // AAC
-                numberOfChannels: 2,
-                sampleRate
-            },
-            firstTimestampBehavior: 'offset', 
-        });
+  const enqueueRender = async () => {
+    const plan = await prepareRenderPlan();
+    if (!plan) return;
+    const queued = createQueuedRender(plan, playlist);
+    changeRenderQueue(queue => [...queue, queued]);
+    setShowRenderModal(false);
+    setShowRenderQueue(true);
+  };
 
-        // 5. Setup Real Video Encoder
-        const videoEncoder = new VideoEncoder({
-            output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
-            error: (e) => { 
-                console.error("Video Encode Error", e); 
-                alert("인코딩 중 치명적 오류 발생: " + e.message); 
-                setIsRendering(false);
-            }
-        });
+  const changeRenderQueue = (update: (queue: QueuedRender[]) => QueuedRender[]) => {
+    renderQueueRef.current = update(renderQueueRef.current);
+    setRenderQueue(renderQueueRef.current);
+  };
 
-        // Configure with validated config
-        videoEncoder.configure(activeConfig);
+  const updateQueuedRender = (id: string, patch: Partial<QueuedRender>) => {
+    changeRenderQueue(queue => queue.map(job => job.id === id ? { ...job, ...patch } : job));
+  };
 
-        // 6. Setup Audio Encoder (AAC)
-        const audioEncoder = new AudioEncoder({
-            output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
-            error: (e) => console.error("Audio Encode Error", e)
+  // Runs pending jobs one after another. Failed jobs are retried up to MAX_QUEUE_ATTEMPTS;
+  // cancelling the running job stops the queue and leaves the rest pending.
+  const runRenderQueue = async () => {
+    if (isRendering || isQueueRunning) return;
+    setIsQueueRunning(true);
+    setShowRenderQueue(false);
+    setQueueSummary(null);
+    const startedAt = performance.now();
+
+    let job: QueuedRender | undefined;
+    while ((job = renderQueueRef.current.find(queued => queued.status === 'pending'))) {
+        let outcome: RenderOutcome;
+        let attempts = job.attempts;
+        updateQueuedRender(job.id, { startedAt: Date.now(), error: null });
+        do {
+            attempts++;
+            updateQueuedRender(job.id, { status: 'running', attempts });
+            outcome = await runPlan(job.plan, job.tracks);
+        } while (outcome.status === 'failed' && attempts < MAX_QUEUE_ATTEMPTS);
+
+        updateQueuedRender(job.id, {
+            status: outcome.status,
+            error: outcome.status === 'failed' ? outcome.message : null,
+            codec: outcome.status === 'done' ? outcome.codec : null,
+            finishedAt: Date.now(),
         });
+        if (outcome.status === 'cancelled') break;
+    }
 
-        audioEncoder.configure({
-            codec: 'mp4a.40.2',
-            numberOfChannels: 2,
-            sampleRate,
-            bitrate: encodingSettings.audioBitrate,
-        });
+    setIsQueueRunning(false);
+    setQueueSummary(summarizeQueue(renderQueueRef.current, performance.now() - startedAt));
+  };
 
-        // 7. RENDER LOOP
-        setRenderStatusText("고속 렌더링 진행 중...");
-        
-        const frameDuration = 1 / fps;
-        const totalFrames = Math.ceil(totalDuration * fps);
-        const dataArray = new Uint8Array(analyserNode.frequencyBinCount);
-
-        for (let i = 0; i < totalFrames; i++) {
-            const time = i * frameDuration;
-            
-            // Suspend context to capture frame
-            offlineCtx.suspend(time).then(async () => {
-                // A. Update Visuals
-                analyserNode.getByteFrequencyData(dataArray);
-                
-                // Draw
-                const canvas = canvasRef.current?.getCanvas();
-                if (canvasRef.current && canvas) {
-                    canvasRef.current.drawOfflineFrame(time * 1000, dataArray);
-                    
-                    // B. Encode Video Frame
-                    const bitmap = await createImageBitmap(canvas);
-                    const videoFrame = new VideoFrame(bitmap, { timestamp: time * 1000000, duration: frameDuration * 1000000 });
-                    
-                    // Keyframe every 2 seconds
-                    videoEncoder.encode(videoFrame, { keyFrame: i % (fps * 2) === 0 });
-                    
-                    videoFrame.close();
-                    bitmap.close();
-                }
+  const resumeRendering = async () => {
+    const checkpoint = pendingCheckpoint;
+    if (!checkpoint?.progress) return;
+    let destination = checkpoint.destination;
+    if (destination.type === 'file' && !(await requestWritePermission(destination.fileHandle))) {
+        if (!confirm("저장 위치에 쓸 권한이 없습니다. 완료 후 다운로드로 저장하시겠습니까?")) return;
+        destination = { type: 'memory' };
+    }
+    const plan = { ...checkpoint, destination };
+    reportRenderOutcome(plan, await runRender(plan, checkpoint, playlist));
+  };
 
-                // Update Progress
-                setRenderProgress((i / totalFrames) * 90); 
-                offlineCtx.resume();
-            });
-        }
+  const downloadPartialRender = () => {
+    const checkpoint = pendingCheckpoint;
+    if (!checkpoint?.progress || checkpoint.job.output.type !== 'opfs') return;
+    const partialName = checkpoint.fileName.replace(/(\.\w+)$/, '_partial$1');
+    downloadPartialWorkFile(checkpoint.job.output.fileName, checkpoint.progress.byteOffset, partialName, checkpoint.mimeType)
+        .catch(e => alert(`❌ 부분 파일을 저장하지 못했습니다: ${e.message}`));
+  };
+
+  const discardPendingRender = async () => {
+    const checkpoint = pendingCheckpoint;
+    if (!checkpoint || !confirm("중단된 렌더링 작업을 삭제하시겠습니까?")) return;
+    if (checkpoint.job.output.type === 'opfs') await removeWorkFile(checkpoint.job.output.fileName);
+    await clearRenderCheckpoint().catch(e => console.warn("Checkpoint clear failed", e));
+    setPendingCheckpoint(null);
+  };
+
+  // Shared start of every render: overlay state, pause/cancel control and throughput stats
+  const beginRender = (plan: RenderPlan, statusText: string) => {
+    setShowRenderModal(false);
+    setActiveRender(plan);
+    setIsRendering(true);
+    setIsRenderPaused(false);
+    setRenderStats(null);
+    setRenderStatusText(statusText);
+
+    const control = createRenderControl();
+    renderControlRef.current = control;
+    renderOutputRef.current = plan.destination;
+    deleteOnCancelRef.current = false;
+
+    const { sampleRate, fps } = plan.job;
+    const stats = createRenderStatsTracker(Math.ceil(plan.totalDuration * fps), Math.ceil(plan.totalDuration * sampleRate), fps);
+    renderStatsRef.current = stats;
+    const publishStats = () => setRenderStats(stats.getStats());
+    // Keeps elapsed time and ETA ticking while a track is being decoded
+    const statsTimer = window.setInterval(publishStats, 1000);
+    return { control, stats, publishStats, statsTimer };
+  };
+
+  const endRender = (statsTimer: number) => {
+    window.clearInterval(statsTimer);
+    renderControlRef.current = null;
+    renderStatsRef.current = null;
+    renderOutputRef.current = null;
+    setIsRenderPaused(false);
+    setIsRendering(false);
+    setActiveRender(null);
+    refreshPendingCheckpoint();
+    refreshHeldOutputs();
+  };
 
-        const renderedBuffer = await offlineCtx.startRendering();
 
-        setRenderStatusText("오디오 인코딩 중...");
+  // Runs a render job; with a checkpoint, continues after its last complete fragment
+  const runRender = async (plan: RenderPlan, checkpoint: RenderCheckpoint | null, tracks: AudioTrack[]): Promise<RenderOutcome> => {
+    const { job } = plan;
+    const resumable = isResumableJob(job);
+    const resume = checkpoint?.progress ? { progress: checkpoint.progress, encoder: checkpoint.encoder } : undefined;
+    const trackSamples = [...(checkpoint?.trackSamples ?? [])];
 
-        const numberOfChannels = renderedBuffer.numberOfChannels;
-        const totalSamples = renderedBuffer.length;
-        const chunkDuration = 1; 
-        const chunkSamples = sampleRate * chunkDuration;
+    const { control, stats, publishStats, statsTimer } = beginRender(plan, resume ? "이전 작업 불러오는 중..." : "코덱 확인 및 오디오 준비 중...");
+    const worker = createRenderWorker(drawRenderThumbnail, progress => {
+        saveRenderProgress(progress, trackSamples).catch(e => console.warn("Checkpoint save failed", e));
+    });
+    const { sampleRate, numberOfChannels, fps } = job;
+    const files = getTimelineFiles(tracks, plan.loopCount);
+
+    try {
+        // 1. Start the worker pipeline (codec probing, encoders, muxer), a clip from its
+        // starting scene, simulated from the nearest checkpoint (see createSceneSimulation)
+        let segment = job.segment;
+        if (segment && !segment.scene) {
+            setRenderStatusText("장면 준비 중...");
+            const scene = await createSceneSimulation(job.settings, job.width, job.height, files, sampleRate, fps, control.signal)(segment.startFrame);
+            segment = { ...segment, scene };
+            setRenderStatusText("코덱 확인 및 오디오 준비 중...");
+        }
+        const { codec: codecLabel, encoder } = await worker.start({ ...job, resume, segment });
+        setUsedCodec(codecLabel);
+        if (resumable && !resume) {
+            // Replaces the interrupted render the user agreed to discard, work file included
+            const [previousFile] = await getCheckpointFiles();
+            if (previousFile && job.output.type === 'opfs' && previousFile !== job.output.fileName) await removeWorkFile(previousFile);
+            await saveRenderJob(plan, encoder);
+        }
+        await control.checkpoint();
+
+        // 2. RENDER LOOP: one decoded track at a time, analysed & encoded in segments.
+        // Spectra are captured here, drawing & encoding happen in the worker.
+        const tracksTotal = tracks.length * plan.loopCount;
+        const resumeFrame = resume?.progress.frameIndex ?? 0;
+        const resumeAudio = resume?.progress.audioSample ?? 0;
+        stats.update(resumeFrame, resumeAudio, resume?.progress.byteOffset ?? 0);
+        publishStats(); // Baseline, so a resumed render's rate only counts new work
+
+        await renderTimelineRange(
+            { files, trackSamples, sampleRate, fps, numberOfChannels, settings: plan.job.settings },
+            plan.range ?? { startFrame: resumeFrame, endFrame: Infinity, startSample: resumeAudio, endSample: Infinity },
+            worker,
+            control,
+            (encoderStats, audioSamples) => {
+                stats.update(encoderStats.framesEncoded, resumeAudio + audioSamples, encoderStats.outputBytes);
+                publishStats();
+            },
+            track => setRenderStatusText(`고속 렌더링 진행 중... (${track + 1}/${tracksTotal})`)
+        );
+
+        setRenderStatusText("파일 패키징 중...");
+        stats.startFinishing();
+        publishStats();
+
+        await control.checkpoint();
+        const outputBuffer = await worker.finish();
+        if (resumable && job.output.type === 'opfs') {
+            // Fresh or resumed, the fragments are delivered and the work file goes with the checkpoint
+            await deliverWorkFile(job.output.fileName, plan.destination, plan.fileName, plan.mimeType);
+            await clearRenderCheckpoint();
+        } else {
+            await saveRenderOutput(job.output, outputBuffer, plan.fileName, plan.mimeType);
+        }
         
-        for (let offset = 0; offset < totalSamples; offset += chunkSamples) {
-            const size = Math.min(chunkSamples, totalSamples - offset);
-            
-            // Planar format
-            const planarData = new Float32Array(size * numberOfChannels);
-            
-            for (let ch = 0; ch < numberOfChannels; ch++) {
-                const channelData = renderedBuffer.getChannelData(ch);
-                const segment = channelData.subarray(offset, offset + size);
-                planarData.set(segment, ch * size);
-            }
+        stats.finish();
+        publishStats();
+        return { status: 'done', codec: codecLabel };
 
-            const audioData = new AudioData({
-                format: 'f32-planar',
-                sampleRate,
-                numberOfFrames: size,
-                numberOfChannels,
-                timestamp: (offset / sampleRate) * 1000000,
-                data: planarData
-            });
+    } catch (e: any) {
+        const cancelled = isAbortError(e);
+        // A failed resumable render keeps its work file and checkpoint; everything else is discarded
+        const keepWorkFile = resumable && !cancelled;
+        const deleteOutput = job.output.type === 'opfs' ? !keepWorkFile : cancelled && deleteOnCancelRef.current;
+        await worker.cancel(deleteOutput).catch(err => console.warn("Render cleanup failed", err));
+        if (resumable && cancelled) {
+            await clearRenderCheckpoint().catch(err => console.warn("Checkpoint clear failed", err));
+            if (deleteOnCancelRef.current && plan.destination.type === 'file') await removePickedFile(plan.destination.fileHandle);
+        }
+        if (cancelled) return { status: 'cancelled' };
+        console.error(e);
+        return { status: 'failed', message: e.message };
+    } finally {
+        worker.terminate();
+        endRender(statsTimer);
+    }
+  };
+
+  // Splits the timeline into time ranges rendered by parallel workers, then stitches
+  // their fragmented MP4s into the output
+  const runParallelRender = async (plan: RenderPlan, tracks: AudioTrack[]): Promise<RenderOutcome> => {
+    const { job } = plan;
+    const { control, stats, publishStats, statsTimer } = beginRender(plan, "트랙 길이 확인 중...");
+    const { sampleRate, numberOfChannels, fps } = job;
+    const extension = CONTAINER_FILE_TYPES[job.format.container].extension;
+    const workers: RenderWorkerClient[] = [];
+    const segmentJobs: RenderJobConfig[] = [];
+
+    const startSegment = (segment: RenderSegment) => {
+        const segmentJob: RenderJobConfig = {
+            ...job,
+            format: { ...job.format, fragmented: true },
+            output: getSegmentTarget(segmentJobs.length, extension),
+            segment,
+        };
+        const worker = createRenderWorker(drawRenderThumbnail);
+        workers.push(worker);
+        segmentJobs.push(segmentJob);
+        return worker.start(segmentJob);
+    };
 
-            audioEncoder.encode(audioData);
-            audioData.close();
+    try {
+        // 1. Exact track lengths, so ranges can be cut on audio packet boundaries.
+        // The spectrum cache has them; tracks not analysed yet are analysed now.
+        const spectrumParams = getSpectrumCacheParams(job.settings, sampleRate, fps);
+        const playlistSamples: number[] = [];
+        for (const track of tracks) {
+            await control.checkpoint();
+            playlistSamples.push((await getTrackSpectrum(track.file, spectrumParams)).length);
+        }
+        const trackSamples = Array.from({ length: plan.loopCount }, () => playlistSamples).flat();
+        const totalSamples = trackSamples.reduce((sum, samples) => sum + samples, 0);
+
+        // 2. The first range picks the encoders every other range must reuse. Each range
+        // renders as soon as its worker has started, while the next one's starting scene is
+        // simulated from the nearest checkpoint (see createSceneSimulation)
+        setRenderStatusText("코덱 확인 및 작업자 준비 중...");
+        const files = getTimelineFiles(tracks, plan.loopCount);
+        const simulateScene = createSceneSimulation(job.settings, job.width, job.height, files, sampleRate, fps, control.signal);
+        const { codec: codecLabel, encoder } = await startSegment({ startFrame: 0, scene: await simulateScene(0), encoder: null });
+        setUsedCodec(codecLabel);
+        const ranges = planRenderRanges(totalSamples, sampleRate, fps, getAudioFrameSamples(encoder.audio.codec, sampleRate), plan.workerCount);
+
+        // 3. Spectra are captured for whichever worker is waiting
+        setRenderStatusText(`병렬 렌더링 진행 중... (작업자 ${ranges.length}개)`);
+        const rangeStats = ranges.map(() => ({ framesEncoded: 0, outputBytes: 0, audioSamples: 0 }));
+        const source = { files, trackSamples, sampleRate, fps, numberOfChannels, settings: plan.job.settings };
+        const renders: Promise<void>[] = [];
+        const failures: unknown[] = [];
+        try {
+            for (const [i, range] of ranges.entries()) {
+                if (i > 0) {
+                    await control.checkpoint();
+                    await startSegment({ startFrame: range.startFrame, scene: await simulateScene(range.startFrame), encoder });
+                }
+                const render = renderTimelineRange(source, range, workers[i], control, (encoderStats, audioSamples) => {
+                    rangeStats[i] = { ...encoderStats, audioSamples };
+                    const sum = (key: keyof typeof rangeStats[number]) => rangeStats.reduce((total, r) => total + r[key], 0);
+                    stats.update(sum('framesEncoded'), sum('audioSamples'), sum('outputBytes'));
+                    publishStats();
+                }).catch(e => {
+                    control.cancel(); // Stop the other ranges
+                    throw e;
+                });
+                render.catch(() => {}); // Collected once every range has started
+                renders.push(render);
+            }
+        } catch (e) {
+            control.cancel(); // Stop the ranges already rendering
+            failures.push(e);
         }
+        for (const result of await Promise.allSettled(renders)) {
+            if (result.status === 'rejected') failures.push(result.reason);
+        }
+        if (failures.length > 0) throw failures.find(e => !isAbortError(e)) ?? failures[0];
 
+        // 4. Close every range and stitch them in timeline order
         setRenderStatusText("파일 패키징 중...");
+        stats.startFinishing();
+        publishStats();
+
+        await control.checkpoint();
+        const segments: Mp4Segment[] = [];
+        for (const [i, worker] of workers.entries()) {
+            const buffer = await worker.finish();
+            segments.push({
+                file: await readSegmentOutput(segmentJobs[i].output, buffer),
+                time: { [VIDEO_TRACK_ID]: ranges[i].startFrame, [AUDIO_TRACK_ID]: ranges[i].startSample },
+            });
+        }
+        await saveStitchedOutput(plan.destination, segments, plan.fileName, plan.mimeType);
 
-        await videoEncoder.flush();
-        await audioEncoder.flush();
-        muxer.finalize();
-        
-        setRenderProgress(100);
-        alert(`✅ 렌더링 완료!\n[${usedCodec === '' ? (activeCodecMuxerString === 'hvc1' ? 'HEVC' : 'AVC') : usedCodec}] 코덱 사용\n${renderFilename}.mp4 파일이 생성되었습니다.`);
+        stats.finish();
+        publishStats();
+        return { status: 'done', codec: `${codecLabel} · 작업자 ${ranges.length}개` };
 
     } catch (e: any) {
+        const cancelled = isAbortError(e);
+        await Promise.all(workers.map(worker => worker.cancel(true).catch(err => console.warn("Render cleanup failed", err))));
+        if (cancelled && deleteOnCancelRef.current && plan.destination.type === 'file') await removePickedFile(plan.destination.fileHandle);
+        if (cancelled) return { status: 'cancelled' };
         console.error(e);
-        alert(`❌ 렌더링 중 오류 발생: ${e.message}`);
+        return { status: 'failed', message: e.message };
     } finally {
-        setIsRendering(false);
+        workers.forEach(worker => worker.terminate());
+        // Range scratch files are no longer needed once stitched or abandoned
+        for (const { output } of segmentJobs) {
+            if (output.type === 'opfs') await removeWorkFile(output.fileName);
+        }
+        endRender(statsTimer);
     }
   };
 
   const cancelRendering = () => {
-    if(confirm("렌더링을 중단하시겠습니까? (페이지가 새로고침됩니다)")) {
-        window.location.reload();
+    const control = renderControlRef.current;
+    if (!control || !confirm("렌더링을 중단하시겠습니까? (현재 설정은 그대로 유지됩니다)")) return;
+    if (renderOutputRef.current?.type === 'file') {
+        deleteOnCancelRef.current = confirm("생성 중이던 영상 파일도 삭제하시겠습니까?");
+    }
+    control.cancel();
+    setRenderStatusText("렌더링 중단 중...");
+  };
+
+  const togglePauseRendering = () => {
+    const control = renderControlRef.current;
+    if (!control) return;
+    if (control.isPaused()) {
+        control.resume();
+        renderStatsRef.current?.resume();
+    } else {
+        control.pause();
+        renderStatsRef.current?.pause();
     }
+    setIsRenderPaused(control.isPaused());
   };
 
   return (
     <div className="flex flex-col h-screen bg-gray-950 text-gray-100 overflow-hidden font-sans relative">
       
+      {showCodecDiagnostics && (
+        <CodecDiagnostics job={buildRenderJob({ type: 'memory' })} onClose={() => setShowCodecDiagnostics(false)} />
+      )}
+
       {/* 1. Filename & Quality Modal */}
       {showRenderModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
-          <div className="bg-gray-800 p-8 rounded-2xl border border-gray-700 shadow-2xl w-full max-w-lg animate-fadeIn">
+          <div className="bg-gray-800 p-8 rounded-2xl border border-gray-700 shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto animate-fadeIn">
              <h2 className="text-2xl font-bold text-cyan-400 mb-6 flex items-center gap-2">
                 <Film size={28}/> 영상 출력 설정
              </h2>
@@ -553,6 +967,127 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
                      />
                  </div>
 
+                 {/* Time Range Selector */}
+                 <div>
+                     <label className="block text-sm text-gray-400 mb-2">렌더링 범위</label>
+                     <div className="grid grid-cols-4 gap-2">
+                        {([['full', '전체'], ['first', `처음 ${PREVIEW_CLIP_SECONDS}초`], ['boundary', '트랙 경계'], ['custom', '직접 지정']] as const).map(([preset, label]) => (
+                            <button
+                                key={preset}
+                                onClick={() => setRangePreset(preset)}
+                                disabled={preset === 'boundary' && timelineBoundaries.length === 0}
+                                className={`p-2 rounded-lg border text-xs transition-all disabled:opacity-40 ${
+                                    rangePreset === preset
+                                    ? 'bg-cyan-900/40 border-cyan-500 text-cyan-300'
+                                    : 'bg-gray-700/50 border-gray-600 hover:bg-gray-700 text-gray-200'
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                     </div>
+                     {rangePreset === 'boundary' && (
+                        <select
+                            value={boundaryIndex}
+                            onChange={(e) => setBoundaryIndex(parseInt(e.target.value))}
+                            className="w-full mt-2 bg-gray-900 border border-gray-600 rounded-lg p-2 text-xs text-white focus:border-cyan-500 outline-none"
+                        >
+                            {timelineBoundaries.map((boundary, i) => (
+                                <option key={i} value={i}>{formatTimeLong(boundary.time)} · {boundary.label}</option>
+                            ))}
+                        </select>
+                     )}
+                     {rangePreset === 'custom' && (
+                        <div className="flex items-center gap-2 mt-2">
+                            {(['start', 'end'] as const).map(point => (
+                                <input
+                                    key={point}
+                                    type="text"
+                                    value={customRange[point]}
+                                    onChange={(e) => setCustomRange(prev => ({ ...prev, [point]: e.target.value }))}
+                                    placeholder={point === 'start' ? '시작 (mm:ss)' : '끝 (mm:ss)'}
+                                    className="flex-1 bg-gray-900 border border-gray-600 rounded-lg p-2 text-xs font-mono text-white focus:border-cyan-500 outline-none"
+                                />
+                            ))}
+                        </div>
+                     )}
+                     {selectedRange && (
+                        <p className={`mt-2 text-xs ${isRangeValid ? 'text-gray-500' : 'text-red-400'}`}>
+                            {isRangeValid
+                                ? `${formatTimeLong(selectedRange.start)} ~ ${formatTimeLong(selectedRange.end)} (${Math.round(selectedRange.end - selectedRange.start)}초) 구간만 미리보기 클립으로 렌더링합니다.`
+                                : `범위를 확인하세요. 전체 길이는 ${formatTimeLong(totalDuration)}입니다.`}
+                        </p>
+                     )}
+                 </div>
+
+                 {/* Resolution Selector */}
+                 <div>
+                    <label className="block text-sm text-gray-400 mb-2 flex items-center gap-2">
+                        <Monitor size={16}/> 출력 해상도
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
+                        {(Object.keys(CANVAS_RESOLUTIONS) as OutputResolution[]).map((key) => (
+                            <button
+                                key={key}
+                                onClick={() => setOutputResolution(key)}
+                                className={`p-2 rounded-lg border text-center transition-all ${
+                                    outputResolution === key
+                                    ? 'bg-cyan-900/40 border-cyan-500 ring-1 ring-cyan-500 text-cyan-300'
+                                    : 'bg-gray-700/50 border-gray-600 hover:bg-gray-700 text-gray-200'
+                                }`}
+                            >
+                                <div className="font-bold text-xs">{CANVAS_RESOLUTIONS[key].label}</div>
+                                <div className="text-[10px] font-mono text-gray-500 mt-0.5">{CANVAS_RESOLUTIONS[key].width}x{CANVAS_RESOLUTIONS[key].height}</div>
+                            </button>
+                        ))}
+                    </div>
+                 </div>
+
+                 {/* Container & Codec Selector */}
+                 <div>
+                    <label className="block text-sm text-gray-400 mb-2 flex items-center gap-2">
+                        <Film size={16}/> 출력 포맷
+                    </label>
+                    <div className="space-y-2">
+                        {[
+                            { label: '컨테이너', options: (['mp4', 'webm'] as OutputContainer[]).map(c => ({ id: c, label: c.toUpperCase(), enabled: true, active: outputFormat.container === c, onSelect: () => selectContainer(c) })) },
+                            { label: '비디오', options: (Object.keys(VIDEO_CODEC_LABELS) as VideoCodecId[]).map(c => ({ id: c, label: VIDEO_CODEC_LABELS[c], enabled: CONTAINER_CODECS[outputFormat.container].video.includes(c), active: outputFormat.videoCodec === c, onSelect: () => setOutputFormat(prev => ({ ...prev, videoCodec: c })) })) },
+                            { label: '오디오', options: (Object.keys(AUDIO_CODEC_LABELS) as AudioCodecId[]).map(c => ({ id: c, label: AUDIO_CODEC_LABELS[c], enabled: CONTAINER_CODECS[outputFormat.container].audio.includes(c), active: outputFormat.audioCodec === c, onSelect: () => setOutputFormat(prev => ({ ...prev, audioCodec: c })) })) },
+                        ].map(row => (
+                            <div key={row.label} className="flex items-center gap-2">
+                                <span className="w-16 text-xs text-gray-500 shrink-0">{row.label}</span>
+                                <div className="flex-1 grid grid-cols-4 gap-2">
+                                    {row.options.map(opt => (
+                                        <button
+                                            key={opt.id}
+                                            disabled={!opt.enabled}
+                                            onClick={opt.onSelect}
+                                            className={`py-1.5 rounded border text-xs transition-all disabled:opacity-30 disabled:cursor-not-allowed ${
+                                                opt.active
+                                                ? 'bg-cyan-900/40 border-cyan-500 text-cyan-300'
+                                                : 'bg-gray-700/50 border-gray-600 hover:bg-gray-700 text-gray-200'
+                                            }`}
+                                        >
+                                            {opt.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                        {outputFormat.container === 'mp4' && (
+                            <label className="flex items-center gap-2 pt-1 text-xs text-gray-300 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={outputFormat.fragmented}
+                                    onChange={(e) => setOutputFormat(prev => ({ ...prev, fragmented: e.target.checked }))}
+                                    className="accent-cyan-500"
+                                />
+                                Fragmented MP4 <span className="text-gray-500">— 중단되어도 재생 가능, 이어서 렌더링 지원</span>
+                            </label>
+                        )}
+                    </div>
+                 </div>
+
                  {/* Quality Selector */}
                  <div>
                     <label className="block text-sm text-gray-400 mb-2 flex items-center gap-2">
@@ -562,32 +1097,130 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
                         {RENDER_PRESETS.map((preset) => (
                             <button
                                 key={preset.id}
-                                onClick={() => setSelectedPreset(preset)}
+                                onClick={() => selectPreset(preset)}
                                 className={`flex items-center justify-between p-3 rounded-lg border text-left transition-all ${
-                                    selectedPreset.id === preset.id 
+                                    isPresetActive(preset)
                                     ? 'bg-cyan-900/40 border-cyan-500 ring-1 ring-cyan-500' 
                                     : 'bg-gray-700/50 border-gray-600 hover:bg-gray-700'
                                 }`}
                             >
                                 <div>
-                                    <div className={`font-bold text-sm ${selectedPreset.id === preset.id ? 'text-cyan-300' : 'text-gray-200'}`}>
+                                    <div className={`font-bold text-sm ${isPresetActive(preset) ? 'text-cyan-300' : 'text-gray-200'}`}>
                                         {preset.label}
                                     </div>
                                     <div className="text-xs text-gray-400 mt-0.5">{preset.description}</div>
                                 </div>
                                 <div className="text-xs font-mono text-gray-500 bg-black/20 px-2 py-1 rounded">
-                                    {(preset.bitrate / 1000000).toFixed(1)}Mbps
+                                    {(scaleBitrate(preset.bitrate, outputWidth, outputHeight) / 1000000).toFixed(1)}Mbps
                                 </div>
                             </button>
                         ))}
                     </div>
                  </div>
 
+                 {/* Advanced Encoder Settings */}
+                 <div className="border border-gray-700 rounded-lg">
+                    <button
+                        onClick={() => setShowAdvancedEncoder(prev => !prev)}
+                        className="w-full flex items-center justify-between p-3 text-sm text-gray-300 hover:bg-gray-700/40 rounded-lg"
+                    >
+                        <span className="flex items-center gap-2"><Sliders size={16}/> 고급 인코더 설정</span>
+                        <span className="text-xs text-gray-500">{showAdvancedEncoder ? '접기' : '펼치기'}</span>
+                    </button>
+                    {showAdvancedEncoder && (
+                        <div className="p-3 pt-0 space-y-3">
+                            {[
+                                { label: '프레임', options: FRAME_RATES.map(fps => ({ id: String(fps), label: `${fps}fps`, active: encoderSettings.fps === fps, onSelect: () => updateEncoderSetting('fps', fps) })) },
+                                { label: '비트레이트', options: ([['variable', '가변 (VBR)'], ['constant', '고정 (CBR)'], ['quantizer', '고정 품질 (QP)']] as const).map(([mode, label]) => ({ id: mode, label, active: encoderSettings.bitrateMode === mode, onSelect: () => updateEncoderSetting('bitrateMode', mode) })) },
+                                { label: '가속', options: ([['no-preference', '자동'], ['prefer-hardware', '하드웨어'], ['prefer-software', '소프트웨어']] as const).map(([mode, label]) => ({ id: mode, label, active: encoderSettings.hardwareAcceleration === mode, onSelect: () => updateEncoderSetting('hardwareAcceleration', mode) })) },
+                                { label: '지연 모드', options: ([['quality', '품질 우선'], ['realtime', '속도 우선']] as const).map(([mode, label]) => ({ id: mode, label, active: encoderSettings.latencyMode === mode, onSelect: () => updateEncoderSetting('latencyMode', mode) })) },
+                                { label: '오디오', options: AUDIO_BITRATES.map(bitrate => ({ id: String(bitrate), label: `${bitrate / 1000}k`, active: encoderSettings.audioBitrate === bitrate, onSelect: () => updateEncoderSetting('audioBitrate', bitrate) })) },
+                                { label: '샘플레이트', options: AUDIO_SAMPLE_RATES.map(rate => ({ id: String(rate), label: `${rate / 1000}kHz`, active: encoderSettings.sampleRate === rate, onSelect: () => updateEncoderSetting('sampleRate', rate) })) },
+                                ...(outputFormat.container === 'mp4' ? [
+                                    { label: '병렬 작업자', options: RENDER_WORKER_COUNTS.filter(count => count <= Math.max(1, navigator.hardwareConcurrency || 1)).map(count => ({ id: String(count), label: count === 1 ? '끄기' : `${count}개`, active: encoderSettings.workerCount === count, onSelect: () => updateEncoderSetting('workerCount', count) })) },
+                                ] : []),
+                            ].map(row => (
+                                <div key={row.label} className="flex items-center gap-2">
+                                    <span className="w-16 text-xs text-gray-500 shrink-0">{row.label}</span>
+                                    <div className="flex-1 flex flex-wrap gap-1.5">
+                                        {row.options.map(opt => (
+                                            <button
+                                                key={opt.id}
+                                                onClick={opt.onSelect}
+                                                className={`px-2 py-1.5 rounded border text-xs transition-all ${
+                                                    opt.active
+                                                    ? 'bg-cyan-900/40 border-cyan-500 text-cyan-300'
+                                                    : 'bg-gray-700/50 border-gray-600 hover:bg-gray-700 text-gray-200'
+                                                }`}
+                                            >
+                                                {opt.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+
+                            {encoderSettings.bitrateMode === 'quantizer' ? (
+                                <div className="flex items-center gap-2">
+                                    <span className="w-16 text-xs text-gray-500 shrink-0">QP</span>
+                                    <input
+                                        type="range" min="0" max="51" step="1"
+                                        value={encoderSettings.quantizer}
+                                        onChange={(e) => updateEncoderSetting('quantizer', parseInt(e.target.value))}
+                                        className="flex-1 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                                    />
+                                    <span className="w-16 text-right text-xs font-mono text-gray-300">{encoderSettings.quantizer} (낮을수록 고화질)</span>
+                                </div>
+                            ) : (
+                                <div className="flex items-center gap-2">
+                                    <span className="w-16 text-xs text-gray-500 shrink-0">영상 Mbps</span>
+                                    <input
+                                        type="number" min="0.5" max="200" step="0.5"
+                                        value={encoderSettings.videoBitrate === null ? '' : encoderSettings.videoBitrate / 1000000}
+                                        placeholder={`자동 (${(presetBitrate / 1000000).toFixed(1)})`}
+                                        onChange={(e) => updateEncoderSetting('videoBitrate', e.target.value === '' ? null : Math.max(0.1, parseFloat(e.target.value)) * 1000000)}
+                                        className="flex-1 bg-gray-900 border border-gray-600 rounded p-1.5 text-xs text-white focus:border-cyan-500 outline-none"
+                                    />
+                                </div>
+                            )}
+
+                            <div className="flex items-center gap-2">
+                                <span className="w-16 text-xs text-gray-500 shrink-0">키프레임</span>
+                                <input
+                                    type="number" min="0.5" max="10" step="0.5"
+                                    value={encoderSettings.keyframeInterval}
+                                    onChange={(e) => updateEncoderSetting('keyframeInterval', Math.min(10, Math.max(0.5, parseFloat(e.target.value) || 2)))}
+                                    className="w-20 bg-gray-900 border border-gray-600 rounded p-1.5 text-xs text-white focus:border-cyan-500 outline-none"
+                                />
+                                <span className="text-xs text-gray-500">초 간격</span>
+                            </div>
+                        </div>
+                    )}
+                    <div className={`px-3 pb-3 text-xs ${encoderCheck.status === 'error' ? 'text-red-400' : encoderCheck.status === 'ok' ? 'text-green-400' : 'text-gray-500'}`}>
+                        {encoderCheck.status === 'checking' && '인코더 지원 여부 확인 중...'}
+                        {encoderCheck.status === 'ok' && `✓ 지원됨: ${encoderCheck.message}`}
+                        {encoderCheck.status === 'error' && `✗ 지원되지 않는 설정입니다: ${encoderCheck.message}`}
+                        <button onClick={() => setShowCodecDiagnostics(true)} className="ml-2 text-gray-400 underline hover:text-cyan-300">
+                            코덱 진단
+                        </button>
+                    </div>
+                 </div>
+
                  <div className="p-4 bg-gray-900/50 rounded-lg text-xs text-gray-400 border border-gray-700">
                     <p className="mb-2 text-cyan-400 font-bold">📢 고속 렌더링 모드</p>
                     <ul className="list-disc list-inside space-y-1">
-                        <li><strong>HEVC(H.265)</strong> 코덱을 우선 시도하며, 미지원 시 <strong>H.264</strong>로 자동 전환됩니다.</li>
+                        <li>선택한 <strong>{VIDEO_CODEC_LABELS[outputFormat.videoCodec]}</strong> 코덱을 우선 시도하며, 미지원 시 지원되는 코덱으로 자동 전환됩니다.</li>
                         <li>재생 속도보다 훨씬 빠르게 영상을 제작합니다.</li>
+                        {selectedRange ? (
+                            <li>미리보기 클립은 한 번에 렌더링되며 이어서 렌더링을 지원하지 않습니다.</li>
+                        ) : outputFormat.container === 'mp4' && encoderSettings.workerCount > 1 ? (
+                            <li>타임라인을 {encoderSettings.workerCount}개 구간으로 나눠 동시에 렌더링한 뒤 하나의 MP4로 합칩니다. (이어서 렌더링 미지원)</li>
+                        ) : outputFormat.container === 'mp4' && outputFormat.fragmented && supportsOpfs() && (
+                            <li>브라우저가 종료되어도 마지막으로 저장된 지점부터 이어서 렌더링할 수 있습니다.</li>
+                        )}
+                        {!supportsSaveFilePicker() && (
+                            <li className="text-yellow-400">이 브라우저는 파일 저장 API를 지원하지 않아, 렌더링이 끝나면 일반 다운로드로 저장됩니다.</li>
+                        )}
                         <li className="text-red-400">주의: 하드웨어 성능에 따라 브라우저가 일시적으로 느려질 수 있습니다.</li>
                     </ul>
                  </div>
@@ -599,9 +1232,17 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
                      >
                         취소
                      </button>
+                     <button 
+                        onClick={enqueueRender}
+                        disabled={encoderCheck.status === 'error' || !isRangeValid}
+                        className="flex-1 py-3 rounded-lg border border-cyan-700 text-cyan-300 hover:bg-cyan-900/30 disabled:opacity-40 disabled:cursor-not-allowed"
+                     >
+                        대기열에 추가
+                     </button>
                      <button 
                         onClick={startOfflineRendering}
-                        className="flex-1 py-3 rounded-lg bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold shadow-lg transition-transform transform active:scale-95"
+                        disabled={encoderCheck.status === 'error' || !isRangeValid}
+                        className="disabled:opacity-40 disabled:cursor-not-allowed flex-1 py-3 rounded-lg bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold shadow-lg transition-transform transform active:scale-95"
                      >
                         고속 렌더링 시작
                      </button>
@@ -611,8 +1252,135 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
         </div>
       )}
 
+      {/* Render Queue */}
+      {showRenderQueue && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+          <div className="bg-gray-800 p-6 rounded-2xl border border-gray-700 shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto animate-fadeIn">
+             <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-cyan-400 flex items-center gap-2">
+                    <Layers size={24}/> 렌더링 대기열
+                </h2>
+                <button onClick={() => setShowRenderQueue(false)} className="p-1 text-gray-400 hover:text-white"><X size={20}/></button>
+             </div>
+
+             {renderQueue.length === 0 ? (
+                <p className="py-10 text-center text-sm text-gray-500">
+                    대기열이 비어 있습니다. 영상 출력 설정에서 "대기열에 추가"를 눌러 작업을 추가하세요.
+                </p>
+             ) : (
+                <div className="space-y-2">
+                    {renderQueue.map((job, i) => (
+                        <div key={job.id} className="p-3 bg-gray-900/50 rounded-lg border border-gray-700 flex items-center gap-3 text-sm">
+                            <span className="w-6 text-center text-gray-500 font-mono">{i + 1}</span>
+                            <div className="flex-1 min-w-0">
+                                <div className="font-bold text-gray-200 truncate">{job.plan.fileName}</div>
+                                <div className="text-xs text-gray-500">
+                                    {job.tracks.length}곡 × {job.plan.loopCount}회 · {formatTimeLong(job.plan.totalDuration)} · {job.plan.job.width}x{job.plan.job.height} {job.plan.job.fps}fps · {job.plan.destination.type === 'file' ? '파일 저장' : '다운로드'}
+                                </div>
+                                {job.codec && <div className="text-xs text-cyan-500 font-mono">{job.codec}</div>}
+                                {job.error && <div className="text-xs text-red-400 truncate" title={job.error}>{job.error}</div>}
+                            </div>
+                            <span className={`px-2 py-0.5 rounded text-xs shrink-0 ${
+                                job.status === 'done' ? 'bg-green-900/40 text-green-300'
+                                : job.status === 'failed' ? 'bg-red-900/40 text-red-300'
+                                : job.status === 'running' ? 'bg-cyan-900/40 text-cyan-300'
+                                : 'bg-gray-700 text-gray-300'
+                            }`}>
+                                {{ pending: '대기', running: '렌더링 중', done: '완료', failed: '실패', cancelled: '중단됨' }[job.status]}
+                                {job.attempts > 1 && ` (${job.attempts}회 시도)`}
+                            </span>
+                            {(job.status === 'failed' || job.status === 'cancelled') && (
+                                <button
+                                    onClick={() => updateQueuedRender(job.id, { status: 'pending', attempts: 0, error: null })}
+                                    disabled={isQueueRunning}
+                                    className="text-xs text-gray-300 hover:text-cyan-300 disabled:opacity-40"
+                                >
+                                    재시도
+                                </button>
+                            )}
+                            <button
+                                onClick={() => changeRenderQueue(queue => queue.filter(queued => queued.id !== job.id))}
+                                disabled={job.status === 'running'}
+                                className="text-gray-500 hover:text-red-400 disabled:opacity-40"
+                                title="대기열에서 제거"
+                            >
+                                <Trash2 size={14}/>
+                            </button>
+                        </div>
+                    ))}
+                </div>
+             )}
+
+             <p className="text-xs text-gray-500 mt-4">
+                 작업은 순서대로 자동 진행되며, 실패한 작업은 최대 {MAX_QUEUE_ATTEMPTS}회까지 시도합니다. 렌더링을 중단하면 대기열도 멈춥니다.
+             </p>
+
+             <div className="flex gap-3 pt-4">
+                <button
+                    onClick={() => changeRenderQueue(queue => queue.filter(job => job.status === 'pending' || job.status === 'running'))}
+                    disabled={!renderQueue.some(job => job.status !== 'pending' && job.status !== 'running')}
+                    className="flex-1 py-2.5 rounded-lg border border-gray-600 hover:bg-gray-700 text-gray-300 text-sm disabled:opacity-40"
+                >
+                    끝난 작업 지우기
+                </button>
+                <button
+                    onClick={runRenderQueue}
+                    disabled={isRendering || isQueueRunning || !renderQueue.some(job => job.status === 'pending')}
+                    className="flex-1 py-2.5 rounded-lg bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    대기열 시작 ({renderQueue.filter(job => job.status === 'pending').length})
+                </button>
+             </div>
+          </div>
+        </div>
+      )}
+
+      {/* Render Queue Summary */}
+      {queueSummary && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
+          <div className="bg-gray-800 p-6 rounded-2xl border border-gray-700 shadow-2xl w-full max-w-md animate-fadeIn">
+             <h2 className="text-xl font-bold text-cyan-400 mb-4">대기열 완료</h2>
+             <div className="grid grid-cols-4 gap-2 text-center text-xs mb-4">
+                {[
+                    { label: '완료', value: queueSummary.done, color: 'text-green-300' },
+                    { label: '실패', value: queueSummary.failed, color: 'text-red-300' },
+                    { label: '중단됨', value: queueSummary.cancelled, color: 'text-yellow-300' },
+                    { label: '대기', value: queueSummary.pending, color: 'text-gray-300' },
+                ].map(item => (
+                    <div key={item.label} className="bg-gray-900 border border-gray-700 rounded-lg py-2">
+                        <div className="text-gray-500">{item.label}</div>
+                        <div className={`text-lg font-bold ${item.color}`}>{item.value}</div>
+                    </div>
+                ))}
+             </div>
+             <p className="text-sm text-gray-400">총 소요 시간: <span className="font-mono text-gray-200">{formatTimeLong(queueSummary.elapsedMs / 1000)}</span></p>
+             {queueSummary.failures.length > 0 && (
+                <ul className="mt-3 space-y-1 text-xs text-red-400">
+                    {queueSummary.failures.map(failure => (
+                        <li key={failure.fileName} className="truncate" title={failure.error}>✗ {failure.fileName}: {failure.error}</li>
+                    ))}
+                </ul>
+             )}
+             <div className="flex gap-3 pt-5">
+                <button
+                    onClick={() => { setQueueSummary(null); setShowRenderQueue(true); }}
+                    className="flex-1 py-2.5 rounded-lg border border-gray-600 hover:bg-gray-700 text-gray-300 text-sm"
+                >
+                    대기열 보기
+                </button>
+                <button
+                    onClick={() => setQueueSummary(null)}
+                    className="flex-1 py-2.5 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white font-bold text-sm"
+                >
+                    확인
+                </button>
+             </div>
+          </div>
+        </div>
+      )}
+
       {/* 2. Rendering Progress Overlay */}
-      {isRendering && (
+      {isRendering && activeRender && (
         <div className="fixed inset-0 z-[60] flex flex-col items-center justify-center bg-black/95 backdrop-blur-md">
            <div className="w-full max-w-2xl px-8 text-center space-y-8">
                <div className="relative inline-block">
@@ -621,43 +1389,96 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
                </div>
                
                <div>
-                   <h2 className="text-4xl font-black text-white mb-2 tracking-tight">{renderStatusText}</h2>
-                   <p className="text-gray-400 text-lg">{renderFilename}.mp4</p>
+                   <h2 className="text-4xl font-black text-white mb-2 tracking-tight">{isRenderPaused ? '일시정지됨' : renderStatusText}</h2>
+                   <p className="text-gray-400 text-lg">{activeRender.fileName}</p>
                </div>
 
+               <canvas
+                   ref={thumbnailRef}
+                   {...getThumbnailSize(activeRender.job.width, activeRender.job.height)}
+                   className="mx-auto rounded-lg border border-gray-800 bg-black"
+               />
+
                <div className="relative pt-4">
                    <div className="flex justify-between text-sm font-bold mb-2">
                        <span className="text-cyan-400">진행률</span>
-                       <span className="text-white">{renderProgress.toFixed(1)}%</span>
+                       <span className="text-white">{(renderStats?.progress ?? 0).toFixed(1)}%</span>
                    </div>
                    <div className="h-4 bg-gray-800 rounded-full overflow-hidden border border-gray-700">
                        <div 
                           className="h-full bg-gradient-to-r from-cyan-500 via-blue-500 to-purple-500 transition-all duration-300 ease-out"
-                          style={{ width: `${renderProgress}%` }}
+                          style={{ width: `${renderStats?.progress ?? 0}%` }}
                        />
                    </div>
+                   <div className="grid grid-cols-5 gap-2 mt-4 text-xs">
+                       {[
+                           { label: '속도', value: renderStats && renderStats.fps > 0 ? `${renderStats.fps.toFixed(1)} fps` : '-' },
+                           { label: '실시간 대비', value: renderStats && renderStats.realtime > 0 ? `${renderStats.realtime.toFixed(2)}x` : '-' },
+                           { label: '경과 시간', value: formatTimeLong((renderStats?.elapsedMs ?? 0) / 1000) },
+                           { label: '남은 시간', value: renderStats?.etaMs != null ? formatTimeLong(renderStats.etaMs / 1000) : '-' },
+                           { label: '출력 크기', value: formatBytes(renderStats?.outputBytes ?? 0) },
+                       ].map(stat => (
+                           <div key={stat.label} className="bg-gray-900 border border-gray-800 rounded-lg py-2">
+                               <div className="text-gray-500">{stat.label}</div>
+                               <div className="font-mono text-gray-200 mt-0.5">{stat.value}</div>
+                           </div>
+                       ))}
+                   </div>
                    <p className="text-xs text-gray-500 mt-4 animate-pulse">
-                        {selectedPreset.label} 모드 동작 중<br/>
+                        {activeRender.job.fps}fps · {activeRender.job.width}x{activeRender.job.height} 모드 동작 중<br/>
                         <span className="font-mono text-cyan-500">Codec: {usedCodec}</span><br/>
+                        {isQueueRunning && <span>대기열: 남은 작업 {renderQueue.filter(job => job.status === 'pending').length}개</span>}
                    </p>
                </div>
 
-               <button 
-                  onClick={cancelRendering}
-                  className="mt-8 px-6 py-2 rounded-full border border-red-900/50 text-red-500 hover:bg-red-900/20 text-sm transition-colors"
-               >
-                  중단 (새로고침)
-               </button>
+               <div className="mt-8 flex items-center justify-center gap-3">
+                   <button 
+                      onClick={togglePauseRendering}
+                      className="px-6 py-2 rounded-full border border-gray-700 text-gray-300 hover:bg-gray-800 text-sm transition-colors flex items-center gap-2"
+                   >
+                      {isRenderPaused ? <><Play size={14}/> 재개</> : <><Pause size={14}/> 일시정지</>}
+                   </button>
+                   <button 
+                      onClick={cancelRendering}
+                      className="px-6 py-2 rounded-full border border-red-900/50 text-red-500 hover:bg-red-900/20 text-sm transition-colors"
+                   >
+                      중단
+                   </button>
+               </div>
            </div>
         </div>
       )}
 
       {/* Top Header */}
       <div className="h-14 bg-gray-900 border-b border-gray-800 flex items-center justify-between px-6 shrink-0 z-20">
-        <button onClick={onBack} disabled={isRendering} className="text-gray-400 hover:text-white flex items-center gap-2 transition-colors disabled:opacity-50">
+        <button onClick={onBack} disabled={isRendering || isQueueRunning} className="text-gray-400 hover:text-white flex items-center gap-2 transition-colors disabled:opacity-50">
           ← Back
         </button>
         <div className="flex items-center gap-6">
+             {pendingCheckpoint?.progress && !isRendering && (
+                <div className="flex items-center gap-3 text-xs bg-yellow-900/20 border border-yellow-700/50 rounded-lg px-3 py-1.5">
+                    <span className="text-yellow-300">
+                        중단된 렌더링 ({Math.min(99, pendingCheckpoint.progress.frameIndex / pendingCheckpoint.job.fps / pendingCheckpoint.totalDuration * 100).toFixed(0)}%)
+                    </span>
+                    <button onClick={resumeRendering} className="text-white font-bold hover:text-cyan-300 flex items-center gap-1">
+                        <Play size={12}/> 이어서 렌더링
+                    </button>
+                    <button onClick={downloadPartialRender} className="text-gray-400 hover:text-white flex items-center gap-1" title="완료된 부분까지 재생 가능한 파일로 저장">
+                        <Download size={12}/> 부분 저장
+                    </button>
+                    <button onClick={discardPendingRender} className="text-gray-500 hover:text-red-400" title="작업 삭제">
+                        <Trash2 size={12}/>
+                    </button>
+                </div>
+             )}
+             {(heldOutputs.bytes > 0 || heldOutputs.downloads) && !isRendering && (
+                <button onClick={discardHeldOutputs} className="text-xs text-gray-500 hover:text-red-400 flex items-center gap-1" title="다운로드가 끝난 렌더링 임시 파일 삭제">
+                    <Trash2 size={12}/> 임시 파일{heldOutputs.bytes > 0 && ` ${formatBytes(heldOutputs.bytes)}`}
+                </button>
+             )}
+             <button onClick={() => setShowRenderQueue(true)} className="text-gray-300 hover:text-white text-sm flex items-center gap-2 transition-colors">
+               <Layers size={16} /> 대기열{renderQueue.length > 0 && ` (${renderQueue.filter(job => job.status === 'pending').length}/${renderQueue.length})`}
+             </button>
              <button onClick={initiateRender} className="bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-1.5 rounded-lg text-sm font-bold shadow-lg flex items-center gap-2 transition-all">
                <Download size={16} /> Render Video
              </button>
@@ -684,6 +1505,11 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
                             {id: 'circle', label: '원형'},
                             {id: 'line', label: '선형'},
                             {id: 'wave', label: '파형 (3 Lines)'},
+                            {id: 'spectrogram', label: '스펙트로그램'},
+                            {id: 'oscilloscope', label: '오실로스코프'},
+                            {id: 'vectorscope', label: '벡터스코프 (XY)'},
+                            {id: 'terrain', label: '3D 지형'},
+                            {id: 'path', label: '경로 (SVG)'},
                         ].map((opt) => (
                             <button
                                 key={opt.id}
@@ -694,6 +1520,245 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
                             </button>
                         ))}
                     </div>
+
+                    {settings.spectrumStyle === 'spectrogram' && (
+                        <div className="space-y-3 bg-gray-800/50 p-3 rounded-lg border border-gray-700 mt-3 animate-fadeIn">
+                            <div>
+                                <span className="block text-[10px] text-gray-400 mb-1">컬러맵</span>
+                                <div className="grid grid-cols-5 gap-1">
+                                    {SPECTROGRAM_COLOR_MAPS.map(map => (
+                                        <button
+                                           key={map.id}
+                                           onClick={() => updateSetting('spectrogramColorMap', map.id)}
+                                           className={`py-1 rounded text-[10px] border ${settings.spectrogramColorMap === map.id ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                        >
+                                           {map.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <span className="block text-[10px] text-gray-400 mb-1">스크롤 방향</span>
+                                <div className="grid grid-cols-4 gap-1">
+                                    {([['left', '← 왼쪽'], ['right', '오른쪽 →'], ['up', '↑ 위'], ['down', '아래 ↓']] as const).map(([id, label]) => (
+                                        <button
+                                           key={id}
+                                           onClick={() => updateSetting('spectrogramDirection', id)}
+                                           className={`py-1 rounded text-[10px] border ${settings.spectrogramDirection === id ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                        >
+                                           {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                                    <span>기록 길이</span>
+                                    <span>{settings.spectrogramHistory}초</span>
+                                </div>
+                                <input
+                                   type="range" min="2" max="30" step="1"
+                                   value={settings.spectrogramHistory}
+                                   onChange={(e) => updateSetting('spectrogramHistory', parseFloat(e.target.value))}
+                                   className="w-full h-1 bg-gray-700 accent-cyan-500 rounded appearance-none cursor-pointer"
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {settings.spectrumStyle === 'circle' && (
+                        <div className="space-y-3 bg-gray-800/50 p-3 rounded-lg border border-gray-700 mt-3 animate-fadeIn">
+                            <div>
+                                <span className="block text-[10px] text-gray-400 mb-1">중앙 디스크 이미지</span>
+                                <div className="grid grid-cols-4 gap-1">
+                                    {([['none', '없음'], ['logo', '로고'], ['background', '배경'], ['cover', '앨범 커버']] as const).map(([id, label]) => (
+                                        <button
+                                           key={id}
+                                           onClick={() => updateSetting('discImage', id)}
+                                           className={`py-1 rounded text-[10px] border ${settings.discImage === id ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                        >
+                                           {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {settings.discImage === 'cover' && (
+                                    <p className="text-[10px] text-gray-500 mt-1">곡 파일에 포함된 커버(MP3, FLAC, M4A)를 곡마다 사용합니다.</p>
+                                )}
+                            </div>
+                            <div>
+                                <span className="block text-[10px] text-gray-400 mb-1">막대 방향</span>
+                                <div className="grid grid-cols-3 gap-1">
+                                    {([['outward', '바깥쪽'], ['inward', '안쪽'], ['both', '양쪽']] as const).map(([id, label]) => (
+                                        <button
+                                           key={id}
+                                           onClick={() => updateSetting('circleBarDirection', id)}
+                                           className={`py-1 rounded text-[10px] border ${settings.circleBarDirection === id ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                        >
+                                           {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            {[
+                                { label: '디스크 회전 속도', key: 'discRotation', min: -60, max: 60, step: 1, unit: ' RPM' },
+                                { label: '베이스 펄스', key: 'bassPulse', min: 0, max: 1, step: 0.05, unit: '' },
+                                { label: '내부 글로우', key: 'discGlow', min: 0, max: 1, step: 0.05, unit: '' },
+                                { label: '시작 각도', key: 'circleStartAngle', min: 0, max: 359, step: 1, unit: '°' },
+                                { label: '호 길이 (Arc)', key: 'circleArc', min: 30, max: 360, step: 15, unit: '°' },
+                            ].map(ctrl => (
+                                <div key={ctrl.key}>
+                                    <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                                        <span>{ctrl.label}</span>
+                                        <span>{settings[ctrl.key as keyof VisualSettings] as number}{ctrl.unit}</span>
+                                    </div>
+                                    <input
+                                       type="range"
+                                       min={ctrl.min} max={ctrl.max} step={ctrl.step}
+                                       value={settings[ctrl.key as keyof VisualSettings] as number}
+                                       onChange={(e) => updateSetting(ctrl.key as keyof VisualSettings, parseFloat(e.target.value))}
+                                       className="w-full h-1 bg-gray-700 accent-cyan-500 rounded appearance-none cursor-pointer"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {settings.spectrumStyle === 'path' && (
+                        <div className="space-y-3 bg-gray-800/50 p-3 rounded-lg border border-gray-700 mt-3 animate-fadeIn">
+                            <div className="grid grid-cols-2 gap-1">
+                                <label className="py-1 rounded text-[10px] border text-center cursor-pointer bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700">
+                                    SVG 가져오기
+                                    <input type="file" accept=".svg,image/svg+xml" onChange={handleSvgPathUpload} className="hidden" />
+                                </label>
+                                <button
+                                   onClick={() => setPathDraft(isDrawingPath ? null : [])}
+                                   className={`py-1 rounded text-[10px] border ${isDrawingPath ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                >
+                                   {isDrawingPath ? '그리기 취소' : '프리뷰에 그리기'}
+                                </button>
+                            </div>
+                            <p className="text-[10px] text-gray-500">
+                                {isDrawingPath
+                                    ? '프리뷰를 클릭해 점을 찍고, 더블클릭하거나 완료를 누르면 적용됩니다. (Esc: 취소)'
+                                    : settings.spectrumPath
+                                        ? `선 ${settings.spectrumPath.polylines.length}개를 따라 밴드를 배치합니다. 위치와 전체 폭으로 옮기고 크기를 바꿀 수 있습니다.`
+                                        : '경로가 없습니다. SVG 파일을 가져오거나 프리뷰에 직접 그려주세요.'}
+                            </p>
+                            <div>
+                                <span className="block text-[10px] text-gray-400 mb-1">막대 방향</span>
+                                <div className="grid grid-cols-3 gap-1">
+                                    {([['outward', '왼쪽 (바깥)'], ['inward', '오른쪽 (안쪽)'], ['both', '양쪽']] as const).map(([id, label]) => (
+                                        <button
+                                           key={id}
+                                           onClick={() => updateSetting('pathBarDirection', id)}
+                                           className={`py-1 rounded text-[10px] border ${settings.pathBarDirection === id ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                        >
+                                           {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <p className="text-[10px] text-gray-500 mt-1">진행 방향 기준입니다. 화면에서 시계 방향으로 그린 도형은 왼쪽이 바깥입니다.</p>
+                            </div>
+                            {settings.spectrumPath && (
+                                <button
+                                   onClick={() => updateSetting('spectrumPath', null)}
+                                   className="w-full py-1 rounded text-[10px] border bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700 flex items-center justify-center gap-1"
+                                >
+                                   <Trash2 size={10} /> 경로 지우기
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {settings.spectrumStyle === 'terrain' && (
+                        <div className="space-y-3 bg-gray-800/50 p-3 rounded-lg border border-gray-700 mt-3 animate-fadeIn">
+                            <div className="grid grid-cols-2 gap-1">
+                                {([['filled', '채움 (Filled)'], ['wireframe', '와이어프레임']] as const).map(([id, label]) => (
+                                    <button
+                                       key={id}
+                                       onClick={() => updateSetting('terrainMode', id)}
+                                       className={`py-1 rounded text-[10px] border ${settings.terrainMode === id ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                    >
+                                       {label}
+                                    </button>
+                                ))}
+                            </div>
+                            {[
+                                { label: '카메라 기울기', key: 'terrainTilt', min: 10, max: 80, step: 1, unit: '°' },
+                                { label: '깊이 (줄 수)', key: 'terrainDepth', min: 10, max: 80, step: 1, unit: '' },
+                                { label: '원근감', key: 'terrainPerspective', min: 0.5, max: 6, step: 0.5, unit: '' },
+                                { label: '안개 (Fog)', key: 'terrainFog', min: 0, max: 1, step: 0.05, unit: '' },
+                            ].map(ctrl => (
+                                <div key={ctrl.key}>
+                                    <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                                        <span>{ctrl.label}</span>
+                                        <span>{settings[ctrl.key as keyof VisualSettings] as number}{ctrl.unit}</span>
+                                    </div>
+                                    <input
+                                       type="range"
+                                       min={ctrl.min} max={ctrl.max} step={ctrl.step}
+                                       value={settings[ctrl.key as keyof VisualSettings] as number}
+                                       onChange={(e) => updateSetting(ctrl.key as keyof VisualSettings, parseFloat(e.target.value))}
+                                       className="w-full h-1 bg-gray-700 accent-cyan-500 rounded appearance-none cursor-pointer"
+                                    />
+                                </div>
+                            ))}
+                            <div className="flex items-center justify-between">
+                                <span className="text-xs text-gray-300" title="가까운 줄은 스펙트럼 색, 먼 줄은 아래 색으로 변합니다">깊이 그라데이션</span>
+                                <div className="flex items-center gap-2">
+                                    {settings.terrainGradient && (
+                                        <div className="relative w-6 h-6 rounded border border-gray-500 overflow-hidden cursor-pointer hover:border-white">
+                                            <div className="absolute inset-0" style={{backgroundColor: settings.terrainFarColor}} />
+                                            <input
+                                               type="color"
+                                               value={settings.terrainFarColor}
+                                               onChange={(e) => updateSetting('terrainFarColor', e.target.value)}
+                                               className="absolute inset-0 opacity-0 cursor-pointer w-full h-full"
+                                            />
+                                        </div>
+                                    )}
+                                    <input
+                                       type="checkbox"
+                                       checked={settings.terrainGradient}
+                                       onChange={(e) => updateSetting('terrainGradient', e.target.checked)}
+                                       className="toggle-checkbox"
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {(settings.spectrumStyle === 'oscilloscope' || settings.spectrumStyle === 'vectorscope') && (
+                        <div className="space-y-3 bg-gray-800/50 p-3 rounded-lg border border-gray-700 mt-3 animate-fadeIn">
+                            {settings.spectrumStyle === 'oscilloscope' ? (
+                                <div>
+                                    <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                                        <span>표시 구간 (Sweep)</span>
+                                        <span>{settings.scopeWindow}ms</span>
+                                    </div>
+                                    <input
+                                       type="range" min="5" max="100" step="1"
+                                       value={settings.scopeWindow}
+                                       onChange={(e) => updateSetting('scopeWindow', parseFloat(e.target.value))}
+                                       className="w-full h-1 bg-gray-700 accent-cyan-500 rounded appearance-none cursor-pointer"
+                                    />
+                                </div>
+                            ) : (
+                                <div>
+                                    <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                                        <span>잔상 (Phosphor)</span>
+                                        <span>{settings.phosphorPersistence}ms</span>
+                                    </div>
+                                    <input
+                                       type="range" min="10" max="500" step="10"
+                                       value={settings.phosphorPersistence}
+                                       onChange={(e) => updateSetting('phosphorPersistence', parseFloat(e.target.value))}
+                                       className="w-full h-1 bg-gray-700 accent-cyan-500 rounded appearance-none cursor-pointer"
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </section>
 
                 {/* 2. Background Filter */}
@@ -901,6 +1966,24 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
                             />
                          </div>
                     )}
+                    <div className="mt-3 bg-gray-800 p-3 rounded-lg border border-gray-700">
+                        <div className="text-[10px] text-gray-400 mb-1">Random Seed (Particles & FX)</div>
+                        <div className="flex gap-2">
+                            <input
+                                type="number" min="0" max="4294967295" step="1"
+                                value={settings.seed}
+                                onChange={(e) => updateSetting('seed', Math.min(0xffffffff, Math.max(0, Math.floor(Number(e.target.value) || 0))))}
+                                className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded p-1.5 text-xs text-white font-mono focus:border-indigo-500 outline-none"
+                            />
+                            <button
+                                onClick={() => updateSetting('seed', createRandomSeed())}
+                                title="새 시드"
+                                className="px-2 bg-gray-700 hover:bg-gray-600 rounded text-gray-300"
+                            >
+                                <Dices size={14}/>
+                            </button>
+                        </div>
+                    </div>
                 </section>
             </div>
         </div>
@@ -909,20 +1992,52 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
         <div className="col-span-6 flex flex-col bg-black relative">
             {/* 1. Preview Area */}
             <div className="flex-1 flex items-center justify-center p-6 bg-gray-950 relative overflow-hidden">
-                 <div className="relative shadow-2xl border border-gray-800 w-full max-w-[100%]" style={{ aspectRatio: '16/9' }}>
+                 <div 
+                    className={`relative shadow-2xl border border-gray-800 ${outputWidth > outputHeight ? 'w-full max-w-[100%]' : 'h-full max-h-[100%]'}`} 
+                    style={{ aspectRatio: `${outputWidth}/${outputHeight}` }}
+                 >
                     <VisualizerCanvas 
                         ref={canvasRef}
-                        analyser={analyser}
+                        spectrum={previewSpectrum}
+                        liveSpectrum={liveSpectrum}
+                        audio={previewAudio}
+                        cover={previewCover}
+                        getPlaybackTime={getPlaybackTime}
+                        trackOffset={trackOffset}
+                        timelineFiles={timelineFiles}
+                        sampleRate={encoderSettings.sampleRate}
+                        fps={encoderSettings.fps}
                         settings={settings}
-                        width={1280}
-                        height={720}
+                        width={outputWidth}
+                        height={outputHeight}
                         isPlaying={isPlaying}
                         isRendering={isRendering}
-                        fps={selectedPreset.fps}
                     />
                     
+                    {/* Path drawing: clicks add points in output pixels */}
+                    {pathDraft && (
+                    <svg
+                        className="absolute inset-0 w-full h-full cursor-crosshair"
+                        viewBox={`0 0 ${outputWidth} ${outputHeight}`}
+                        onClick={handlePathDraftClick}
+                        onDoubleClick={finishPathDraft}
+                    >
+                        <polyline
+                            points={pathDraft.map(p => `${p.x},${p.y}`).join(' ')}
+                            fill="none" stroke="#22d3ee" strokeWidth={outputWidth / 400} strokeDasharray={`${outputWidth / 100}`}
+                        />
+                        {pathDraft.map((p, i) => <circle key={i} cx={p.x} cy={p.y} r={outputWidth / 250} fill="#22d3ee" />)}
+                    </svg>
+                    )}
+                    {pathDraft && (
+                    <div className="absolute top-3 right-3 flex gap-2">
+                        <button onClick={finishPathDraft} disabled={pathDraft.length < 2} className="px-3 py-1 rounded text-xs bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 text-white flex items-center gap-1"><Check size={12}/> 완료</button>
+                        <button onClick={() => setPathDraft(null)} className="px-3 py-1 rounded text-xs bg-gray-800 hover:bg-gray-700 text-gray-300 flex items-center gap-1"><X size={12}/> 취소</button>
+                    </div>
+                    )}
+
                     {/* Centered Play Button Overlay */}
-                    {!isRendering && (
+                    {!isRendering && !pathDraft && (
                     <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                         <button 
                             onClick={handlePlayPause}
@@ -941,7 +2056,10 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
                     <h3 className="text-sm font-bold text-gray-300 flex items-center gap-2">
                         <Layers size={14} /> Playlist Editor
                     </h3>
-                    <span className="text-xs text-gray-500">{playlist.length} Tracks</span>
+                    <span className="text-xs text-gray-500">
+                        {analysisProgress && <span className="text-cyan-400 mr-2">스펙트럼 분석 중 {analysisProgress.done}/{analysisProgress.total}</span>}
+                        {playlist.length} Tracks
+                    </span>
                 </div>
                 <div className="flex-1 overflow-y-auto p-2 space-y-1">
                     {playlist.map((track, idx) => (
@@ -1159,6 +2277,216 @@ export const StudioPhase: React.FC<StudioPhaseProps> = ({ playlist: initialPlayl
                                  />
                              </div>
                          ))}
+
+                         <hr className="border-gray-700"/>
+
+                         {/* Analysis */}
+                         <div>
+                             <span className="block text-[10px] text-gray-400 mb-1">FFT 크기</span>
+                             <div className="grid grid-cols-6 gap-1">
+                                 {FFT_SIZES.map(size => (
+                                     <button
+                                        key={size}
+                                        onClick={() => updateSetting('fftSize', size)}
+                                        className={`py-1 rounded text-[10px] border ${settings.fftSize === size ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                     >
+                                        {size >= 1024 ? `${size / 1024}k` : size}
+                                     </button>
+                                 ))}
+                             </div>
+                         </div>
+                         <div>
+                             <span className="block text-[10px] text-gray-400 mb-1">윈도 함수</span>
+                             <div className="grid grid-cols-5 gap-1">
+                                 {WINDOW_FUNCTIONS.map(w => (
+                                     <button
+                                        key={w.id}
+                                        onClick={() => updateSetting('fftWindow', w.id)}
+                                        className={`py-1 rounded text-[10px] border ${settings.fftWindow === w.id ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                     >
+                                        {w.label}
+                                     </button>
+                                 ))}
+                             </div>
+                         </div>
+
+                         <hr className="border-gray-700"/>
+
+                         {/* Amplitude Mapping: dBFS range, kept at least 10 dB wide */}
+                         <div>
+                             <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                                 <span>바닥 (무음)</span>
+                                 <span>{settings.minDecibels} dBFS</span>
+                             </div>
+                             <input
+                                type="range" min="-120" max="-20" step="1"
+                                value={settings.minDecibels}
+                                onChange={(e) => updateSetting('minDecibels', Math.min(parseFloat(e.target.value), settings.maxDecibels - 10))}
+                                className="w-full h-1 bg-gray-700 accent-cyan-500 rounded appearance-none cursor-pointer"
+                             />
+                         </div>
+                         <div>
+                             <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                                 <span>천장 (최대 높이)</span>
+                                 <span>{settings.maxDecibels} dBFS</span>
+                             </div>
+                             <input
+                                type="range" min="-70" max="0" step="1"
+                                value={settings.maxDecibels}
+                                onChange={(e) => updateSetting('maxDecibels', Math.max(parseFloat(e.target.value), settings.minDecibels + 10))}
+                                className="w-full h-1 bg-gray-700 accent-cyan-500 rounded appearance-none cursor-pointer"
+                             />
+                         </div>
+                         <div>
+                             <span className="block text-[10px] text-gray-400 mb-1">주파수 가중치</span>
+                             <div className="grid grid-cols-3 gap-1">
+                                 {([['none', '없음'], ['a-weighting', 'A-weighting'], ['pink', '핑크 보정']] as const).map(([id, label]) => (
+                                     <button
+                                        key={id}
+                                        onClick={() => updateSetting('frequencyWeighting', id)}
+                                        className={`py-1 rounded text-[10px] border ${settings.frequencyWeighting === id ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                     >
+                                        {label}
+                                     </button>
+                                 ))}
+                             </div>
+                         </div>
+                         <div className="flex items-center justify-between">
+                             <span className="text-xs text-gray-300" title="곡마다 음량을 맞춰 막대 높이를 일정하게 유지합니다">자동 게인 (곡별 음량 보정)</span>
+                             <input
+                                type="checkbox"
+                                checked={settings.autoGain}
+                                onChange={(e) => updateSetting('autoGain', e.target.checked)}
+                                className="toggle-checkbox"
+                             />
+                         </div>
+
+                         <hr className="border-gray-700"/>
+
+                         {/* Frequency Mapping */}
+                         <div>
+                             <span className="block text-[10px] text-gray-400 mb-1">주파수 스케일</span>
+                             <div className="grid grid-cols-4 gap-1">
+                                 {FREQUENCY_SCALES.map(scale => (
+                                     <button
+                                        key={scale.id}
+                                        onClick={() => updateSetting('frequencyScale', scale.id)}
+                                        className={`py-1 rounded text-[10px] border ${settings.frequencyScale === scale.id ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                     >
+                                        {scale.label}
+                                     </button>
+                                 ))}
+                             </div>
+                         </div>
+                         <div>
+                             <span className="block text-[10px] text-gray-400 mb-1">대역 집계</span>
+                             <div className="grid grid-cols-2 gap-1">
+                                 {([['peak', '최대값 (Peak)'], ['average', '평균 (Average)']] as const).map(([id, label]) => (
+                                     <button
+                                        key={id}
+                                        onClick={() => updateSetting('bandAggregation', id)}
+                                        className={`py-1 rounded text-[10px] border ${settings.bandAggregation === id ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                     >
+                                        {label}
+                                     </button>
+                                 ))}
+                             </div>
+                         </div>
+                         <div>
+                             <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                                 <span>최저 주파수</span>
+                                 <span>{settings.minFrequency} Hz</span>
+                             </div>
+                             <input
+                                type="range" min="20" max="1000" step="10"
+                                value={settings.minFrequency}
+                                onChange={(e) => updateSetting('minFrequency', Math.min(parseFloat(e.target.value), settings.maxFrequency - 100))}
+                                className="w-full h-1 bg-gray-700 accent-cyan-500 rounded appearance-none cursor-pointer"
+                             />
+                         </div>
+                         <div>
+                             <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                                 <span>최고 주파수</span>
+                                 <span>{(settings.maxFrequency / 1000).toFixed(1)} kHz</span>
+                             </div>
+                             <input
+                                type="range" min="1000" max="22000" step="500"
+                                value={settings.maxFrequency}
+                                onChange={(e) => updateSetting('maxFrequency', Math.max(parseFloat(e.target.value), settings.minFrequency + 100))}
+                                className="w-full h-1 bg-gray-700 accent-cyan-500 rounded appearance-none cursor-pointer"
+                             />
+                         </div>
+
+                         <hr className="border-gray-700"/>
+
+                         {/* Stereo */}
+                         <div>
+                             <span className="block text-[10px] text-gray-400 mb-1">스테레오 표시</span>
+                             <div className="grid grid-cols-4 gap-1">
+                                 {STEREO_MODES.map(mode => (
+                                     <button
+                                        key={mode.id}
+                                        onClick={() => updateSetting('stereoMode', mode.id)}
+                                        className={`py-1 rounded text-[10px] border ${settings.stereoMode === mode.id ? 'bg-cyan-900/50 border-cyan-500 text-white' : 'bg-gray-900 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+                                     >
+                                        {mode.label}
+                                     </button>
+                                 ))}
+                             </div>
+                             {settings.stereoMode !== 'mono' && !STEREO_SPECTRUM_STYLES.includes(settings.spectrumStyle) && (
+                                 <p className="text-[10px] text-gray-500 mt-1">막대형, 위-아래 막대, 원형 스타일에서만 적용됩니다.</p>
+                             )}
+                         </div>
+
+                         <hr className="border-gray-700"/>
+
+                         {/* Bar Dynamics */}
+                         {[
+                             { label: '상승 시간 (Attack)', key: 'barAttack', min: 0, max: 500, step: 5, unit: 'ms' },
+                             { label: '하강 시간 (Release)', key: 'barRelease', min: 0, max: 2000, step: 10, unit: 'ms' },
+                             { label: '노이즈 게이트', key: 'noiseGate', min: 0, max: 0.3, step: 0.01, unit: '' },
+                         ].map(ctrl => (
+                             <div key={ctrl.key}>
+                                 <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                                     <span>{ctrl.label}</span>
+                                     <span>{settings[ctrl.key as keyof VisualSettings] as number}{ctrl.unit}</span>
+                                 </div>
+                                 <input
+                                    type="range"
+                                    min={ctrl.min} max={ctrl.max} step={ctrl.step}
+                                    value={settings[ctrl.key as keyof VisualSettings] as number}
+                                    onChange={(e) => updateSetting(ctrl.key as keyof VisualSettings, parseFloat(e.target.value))}
+                                    className="w-full h-1 bg-gray-700 accent-cyan-500 rounded appearance-none cursor-pointer"
+                                 />
+                             </div>
+                         ))}
+                         <div className="flex items-center justify-between">
+                             <span className="text-xs text-gray-300">피크 캡 (Peak Caps)</span>
+                             <input
+                                type="checkbox"
+                                checked={settings.peakCaps}
+                                onChange={(e) => updateSetting('peakCaps', e.target.checked)}
+                                className="toggle-checkbox"
+                             />
+                         </div>
+                         {settings.peakCaps && [
+                             { label: '피크 유지 시간', key: 'peakHold', min: 0, max: 2000, step: 50, unit: 'ms' },
+                             { label: '낙하 속도 (Gravity)', key: 'peakFalloff', min: 0.5, max: 10, step: 0.5, unit: '' },
+                         ].map(ctrl => (
+                             <div key={ctrl.key} className="animate-fadeIn">
+                                 <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+                                     <span>{ctrl.label}</span>
+                                     <span>{settings[ctrl.key as keyof VisualSettings] as number}{ctrl.unit}</span>
+                                 </div>
+                                 <input
+                                    type="range"
+                                    min={ctrl.min} max={ctrl.max} step={ctrl.step}
+                                    value={settings[ctrl.key as keyof VisualSettings] as number}
+                                    onChange={(e) => updateSetting(ctrl.key as keyof VisualSettings, parseFloat(e.target.value))}
+                                    className="w-full h-1 bg-gray-700 accent-cyan-500 rounded appearance-none cursor-pointer"
+                                 />
+                             </div>
+                         ))}
                      </div>
                  </section>
 
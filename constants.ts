@@ -1,4 +1,4 @@
-import { VisualSettings } from './types';
+import { VisualSettings, SpectrumStyle, FftSize, WindowFunction, FrequencyScale, StereoMode, SpectrogramColorMap, OutputResolution, OutputFormat, AudioBitrate, FrameRate, AudioSampleRate, AdvancedEncoderSettings } from './types';
 
 export const DEFAULT_VISUAL_SETTINGS: VisualSettings = {
   // Spectrum Defaults
@@ -14,6 +14,64 @@ export const DEFAULT_VISUAL_SETTINGS: VisualSettings = {
   frequencyRange: 64,
   maxHeight: 1.0,
   spectrumThickness: 2,
+
+  // Analysis Defaults (AnalyserNode's)
+  fftSize: 2048,
+  fftWindow: 'blackman',
+
+  // Amplitude Mapping Defaults (AnalyserNode's -100..-30 dB range in dBFS)
+  minDecibels: -85,
+  maxDecibels: -15,
+  frequencyWeighting: 'none',
+  autoGain: false,
+
+  // Frequency Mapping Defaults
+  frequencyScale: 'log',
+  minFrequency: 30,
+  maxFrequency: 16000,
+  bandAggregation: 'peak',
+
+  // Stereo Defaults
+  stereoMode: 'mono',
+
+  // Spectrogram Defaults
+  spectrogramColorMap: 'magma',
+  spectrogramDirection: 'left',
+  spectrogramHistory: 8,
+
+  // Oscilloscope & Vectorscope Defaults
+  scopeWindow: 20,
+  phosphorPersistence: 80,
+
+  // Circle Defaults (bars from 6 o'clock round the full circle, as before)
+  discImage: 'none',
+  discRotation: 0,
+  circleBarDirection: 'outward',
+  bassPulse: 0,
+  circleStartAngle: 180,
+  circleArc: 360,
+  discGlow: 0,
+
+  // Path Defaults
+  spectrumPath: null,
+  pathBarDirection: 'outward',
+
+  // Terrain Defaults
+  terrainMode: 'filled',
+  terrainDepth: 40,
+  terrainTilt: 35,
+  terrainPerspective: 2,
+  terrainGradient: true,
+  terrainFarColor: '#7c3aed',
+  terrainFog: 0.6,
+
+  // Bar Dynamics Defaults
+  barAttack: 30,
+  barRelease: 250,
+  noiseGate: 0.02,
+  peakCaps: false,
+  peakHold: 400,
+  peakFalloff: 2,
   
   // Background Defaults
   backgroundImage: null,
@@ -35,6 +93,7 @@ export const DEFAULT_VISUAL_SETTINGS: VisualSettings = {
   // Screen FX Defaults
   screenEffect: 'none',
   screenEffectIntensity: 0.5,
+  seed: 1,
 
   // Logo Defaults
   logoImage: null,
@@ -44,7 +103,71 @@ export const DEFAULT_VISUAL_SETTINGS: VisualSettings = {
   logoThreshold: 10,
 };
 
-export const CANVAS_RESOLUTIONS = {
-  '720p': { width: 1280, height: 720 },
-  '1080p': { width: 1920, height: 1080 },
-};
\ No newline at end of file
+export const CANVAS_RESOLUTIONS: Record<OutputResolution, { width: number; height: number; label: string }> = {
+  '720p': { width: 1280, height: 720, label: 'HD 720p' },
+  '1080p': { width: 1920, height: 1080, label: 'FHD 1080p' },
+  '1440p': { width: 2560, height: 1440, label: 'QHD 1440p' },
+  '2160p': { width: 3840, height: 2160, label: '4K 2160p' },
+  'vertical': { width: 1080, height: 1920, label: '세로 9:16' },
+  'square': { width: 1080, height: 1080, label: '정사각 1:1' },
+};
+
+// Visual metrics (bar width, particle size, ...) are authored against a 720px short edge
+export const REFERENCE_SHORT_EDGE = 720;
+export const AUDIO_BITRATES: AudioBitrate[] = [96000, 128000, 192000, 256000, 320000];
+export const FRAME_RATES: FrameRate[] = [24, 25, 30, 50, 60];
+export const AUDIO_SAMPLE_RATES: AudioSampleRate[] = [44100, 48000];
+export const RENDER_WORKER_COUNTS = [1, 2, 3, 4, 6, 8];
+
+export const FFT_SIZES: FftSize[] = [512, 1024, 2048, 4096, 8192, 16384];
+export const WINDOW_FUNCTIONS: { id: WindowFunction; label: string }[] = [
+  { id: 'rectangular', label: 'Rect' },
+  { id: 'hann', label: 'Hann' },
+  { id: 'hamming', label: 'Hamming' },
+  { id: 'blackman', label: 'Blackman' },
+  { id: 'blackman-harris', label: 'B-Harris' },
+];
+
+export const FREQUENCY_SCALES: { id: FrequencyScale; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'log', label: 'Log' },
+  { id: 'mel', label: 'Mel' },
+  { id: 'bark', label: 'Bark' },
+];
+
+export const STEREO_MODES: { id: StereoMode; label: string }[] = [
+  { id: 'mono', label: 'Mono' },
+  { id: 'lr-mirror', label: 'L/R 상하' },
+  { id: 'side-by-side', label: 'L/R 좌우' },
+  { id: 'mid-side', label: 'Mid/Side' },
+];
+export const SPECTROGRAM_COLOR_MAPS: { id: SpectrogramColorMap; label: string }[] = [
+  { id: 'magma', label: 'Magma' },
+  { id: 'inferno', label: 'Inferno' },
+  { id: 'viridis', label: 'Viridis' },
+  { id: 'grayscale', label: 'Gray' },
+  { id: 'mono', label: '단색' },
+];
+
+// Styles that can show two channels; the others always draw the mono mix
+export const STEREO_SPECTRUM_STYLES: SpectrumStyle[] = ['bar', 'mirror-bar', 'circle'];
+
+export const DEFAULT_ADVANCED_ENCODER_SETTINGS: AdvancedEncoderSettings = {
+  fps: 30,
+  videoBitrate: null,
+  bitrateMode: 'variable',
+  quantizer: 28,
+  keyframeInterval: 2,
+  hardwareAcceleration: 'no-preference',
+  latencyMode: 'quality',
+  audioBitrate: 128000,
+  sampleRate: 48000,
+  workerCount: 1,
+};
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = {
+  container: 'mp4',
+  videoCodec: 'hevc',
+  audioCodec: 'aac',
+  fragmented: true,
+};
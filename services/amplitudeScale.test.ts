@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { getTrackLoudness, scaleAmplitudes } from './amplitudeScale';
+import { TrackSpectrum } from './spectrumCache';
+import { DEFAULT_VISUAL_SETTINGS } from '../constants';
+import { VisualSettings, WindowFunction } from '../types';
+
+// 1 kHz per bin, so bin 1 sits on the weightings' 0 dB point
+const BIN_COUNT = 24;
+
+const createSpectrum = (rms: number[], window: WindowFunction = 'rectangular'): TrackSpectrum => ({
+  key: 'test',
+  fftSize: 2048,
+  window,
+  sampleRate: 48000,
+  fps: 30,
+  channels: ['mid'],
+  length: rms.length * 1600,
+  frameCount: rms.length,
+  binCount: BIN_COUNT,
+  chunkFrames: 256,
+  rms: Float32Array.from(rms),
+  peak: Float32Array.from(rms),
+});
+
+// 0 dBFS fills a bar, -60 dBFS empties it
+const settings = (overrides: Partial<VisualSettings> = {}): VisualSettings => ({
+  ...DEFAULT_VISUAL_SETTINGS, minDecibels: -60, maxDecibels: 0, frequencyWeighting: 'none', autoGain: false, ...overrides,
+});
+
+const frame = (db: number) => new Float32Array(BIN_COUNT).fill(db);
+
+describe('getTrackLoudness', () => {
+  it('averages the power of frames above the gate', () => {
+    expect(getTrackLoudness(createSpectrum([0.1, 0.1, 0.0001, 0]))).toBeCloseTo(-20);
+  });
+
+  it('is null for a silent track', () => {
+    expect(getTrackLoudness(createSpectrum([0, 0.0001]))).toBeNull();
+  });
+});
+
+describe('scaleAmplitudes', () => {
+  it('reads a full-scale sine as a full bar whatever the window', () => {
+    const rectangular = scaleAmplitudes(frame(20 * Math.log10(1 / 2)), createSpectrum([0.5]), settings());
+    const hann = scaleAmplitudes(frame(20 * Math.log10(0.5 / 2)), createSpectrum([0.5], 'hann'), settings());
+    expect(rectangular[1]).toBeCloseTo(1);
+    expect(hann[1]).toBeCloseTo(1);
+  });
+
+  it('maps the floor/ceiling range linearly and clamps outside it', () => {
+    const toDbfs = 20 * Math.log10(2);
+    const levels = scaleAmplitudes(Float32Array.from([-30, -90, 10], db => db - toDbfs), { ...createSpectrum([0.5]), binCount: 3 }, settings());
+    expect(levels[0]).toBeCloseTo(0.5);
+    expect(levels[1]).toBe(0);
+    expect(levels[2]).toBe(1);
+  });
+
+  it('tilts pink noise flat around 1 kHz', () => {
+    const levels = scaleAmplitudes(frame(-36), createSpectrum([0.5]), settings({ frequencyWeighting: 'pink' }));
+    expect(levels[2] - levels[1]).toBeCloseTo(3 / 60);
+    expect(levels[4] - levels[2]).toBeCloseTo(3 / 60);
+  });
+
+  it('leaves 1 kHz alone under A-weighting and cuts the bass', () => {
+    const spectrum = { ...createSpectrum([0.5]), binCount: 480 }; // 50 Hz per bin
+    const levels = scaleAmplitudes(new Float32Array(480).fill(-36), spectrum, settings({ frequencyWeighting: 'a-weighting' }));
+    const none = scaleAmplitudes(new Float32Array(480).fill(-36), spectrum, settings());
+    expect(levels[20]).toBeCloseTo(none[20], 2);
+    expect(levels[2]).toBeLessThan(none[2] - 0.3); // 100 Hz: about -19 dB
+  });
+
+  it('brings a track to the target loudness within the limit', () => {
+    const db = -36;
+    const plain = scaleAmplitudes(frame(db), createSpectrum([0.01]), settings())[1];
+    const quiet = scaleAmplitudes(frame(db), createSpectrum([0.01]), settings({ autoGain: true }))[1]; // -40 dBFS: +20 dB
+    const silentish = scaleAmplitudes(frame(db), createSpectrum([0.002]), settings({ autoGain: true }))[1]; // -54 dBFS: capped at +24 dB
+    expect(quiet - plain).toBeCloseTo(20 / 60);
+    expect(silentish - plain).toBeCloseTo(24 / 60);
+  });
+
+  it('can scale in place', () => {
+    const decibels = frame(-30);
+    expect(scaleAmplitudes(decibels, createSpectrum([0.5]), settings(), decibels)).toBe(decibels);
+  });
+});
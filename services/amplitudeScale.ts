@@ -0,0 +1,83 @@
+import { VisualSettings, FrequencyWeighting } from '../types';
+import { getWindowGain } from './spectrumAnalysis';
+import { TrackSpectrum } from './spectrumCache';
+
+// Turns analysed dB values into bar levels: dBFS (a full-scale sine reads 0 dB whatever
+// the window), optional frequency weighting, optional auto-gain to the track's loudness,
+// then the floor/ceiling range mapped to 0-1.
+
+// Average loudness auto-gain brings every track to, as RMS in dBFS
+const AUTO_GAIN_TARGET = -20;
+const AUTO_GAIN_LIMIT = 24; // dB either way
+// Frames quieter than this don't count towards a track's loudness (gaps, fades)
+const LOUDNESS_GATE = -60;
+
+// IEC 61672 A-weighting in dB, 0 at 1 kHz
+const aWeighting = (hz: number) => {
+  const f2 = hz * hz;
+  const ra = (12194 ** 2 * f2 * f2) / ((f2 + 20.6 ** 2) * Math.sqrt((f2 + 107.7 ** 2) * (f2 + 737.9 ** 2)) * (f2 + 12194 ** 2));
+  return 20 * Math.log10(ra) + 2.0;
+};
+
+const WEIGHTINGS: Record<FrequencyWeighting, (hz: number) => number> = {
+  none: () => 0,
+  'a-weighting': aWeighting,
+  // Pink noise loses 3 dB per octave per bin; tilting it back makes it flat, 0 at 1 kHz
+  pink: hz => 3 * Math.log2(hz / 1000),
+};
+
+const trackLoudness = new WeakMap<TrackSpectrum, number | null>();
+
+// Gated RMS loudness of the whole track in dBFS, or null if it is silent
+export const getTrackLoudness = (spectrum: TrackSpectrum): number | null => {
+  if (trackLoudness.has(spectrum)) return trackLoudness.get(spectrum)!;
+  const gate = Math.pow(10, LOUDNESS_GATE / 20);
+  let sumSquares = 0;
+  let frames = 0;
+  for (const rms of spectrum.rms) {
+    if (rms < gate) continue;
+    sumSquares += rms * rms;
+    frames++;
+  }
+  const loudness = frames > 0 ? 10 * Math.log10(sumSquares / frames) : null;
+  trackLoudness.set(spectrum, loudness);
+  return loudness;
+};
+
+// dB added to each bin before the floor/ceiling mapping
+interface BinOffsets {
+  key: string;
+  offsets: Float32Array;
+}
+
+let cachedOffsets: BinOffsets | null = null;
+
+const getBinOffsets = (spectrum: TrackSpectrum, settings: VisualSettings) => {
+  const gain = settings.autoGain ? getTrackLoudness(spectrum) : null;
+  const autoGain = gain === null ? 0 : Math.max(-AUTO_GAIN_LIMIT, Math.min(AUTO_GAIN_LIMIT, AUTO_GAIN_TARGET - gain));
+  const { binCount, sampleRate, window } = spectrum;
+  const key = [binCount, sampleRate, window, settings.frequencyWeighting, autoGain].join(':');
+  if (cachedOffsets?.key === key) return cachedOffsets.offsets;
+
+  const toDbfs = -20 * Math.log10(getWindowGain(window) / 2);
+  const weighting = WEIGHTINGS[settings.frequencyWeighting];
+  const binHz = sampleRate / 2 / binCount;
+  const offsets = new Float32Array(binCount);
+  for (let k = 0; k < binCount; k++) {
+    // DC has no useful weight; use half a bin above it
+    offsets[k] = toDbfs + weighting(Math.max(k, 0.5) * binHz) + autoGain;
+  }
+  cachedOffsets = { key, offsets };
+  return offsets;
+};
+
+// decibels: one analysis frame of `spectrum`. Returns 0-1 per bin; `out` may be `decibels` itself.
+export const scaleAmplitudes = (decibels: Float32Array, spectrum: TrackSpectrum, settings: VisualSettings, out = new Float32Array(decibels.length)) => {
+  const offsets = getBinOffsets(spectrum, settings);
+  const floor = settings.minDecibels;
+  const range = settings.maxDecibels - floor;
+  for (let k = 0; k < decibels.length; k++) {
+    out[k] = Math.min(1, Math.max(0, (decibels[k] + offsets[k] - floor) / range));
+  }
+  return out;
+};
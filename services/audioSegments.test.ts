@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { getPlanarSlice } from './audioSegments';
+
+const createBuffer = (channels: number[][]) => ({
+  numberOfChannels: channels.length,
+  length: channels[0].length,
+  getChannelData: (ch: number) => Float32Array.from(channels[ch]),
+} as unknown as AudioBuffer);
+
+describe('getPlanarSlice', () => {
+  it('lays the range out channel after channel', () => {
+    const buffer = createBuffer([[0, 1, 2, 3, 4], [10, 11, 12, 13, 14]]);
+    expect(Array.from(getPlanarSlice(buffer, 1, 4, 2))).toEqual([1, 2, 3, 11, 12, 13]);
+  });
+
+  it('repeats the last channel of a mono source', () => {
+    const buffer = createBuffer([[0, 1, 2, 3]]);
+    expect(Array.from(getPlanarSlice(buffer, 2, 4, 2))).toEqual([2, 3, 2, 3]);
+  });
+});
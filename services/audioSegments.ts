@@ -0,0 +1,23 @@
+// Bounded-memory audio pipeline for offline renders: tracks are decoded one at
+// a time and analysed/encoded in fixed-size segments, so peak memory is set by
+// the longest single track rather than the whole playlist.
+
+export const RENDER_CHANNELS = 2;
+export const SEGMENT_SECONDS = 30;
+
+// Decodes and resamples a file to the render sample rate
+export const decodeTrack = async (file: File, sampleRate: number): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(RENDER_CHANNELS, 1, sampleRate);
+  return ctx.decodeAudioData(await file.arrayBuffer());
+};
+
+// Copies [start, end) of the buffer into f32-planar layout, upmixing mono sources
+export const getPlanarSlice = (buffer: AudioBuffer, start: number, end: number, numberOfChannels: number): Float32Array => {
+  const size = end - start;
+  const planarData = new Float32Array(size * numberOfChannels);
+  for (let ch = 0; ch < numberOfChannels; ch++) {
+    const channelData = buffer.getChannelData(Math.min(ch, buffer.numberOfChannels - 1));
+    planarData.set(channelData.subarray(start, end), ch * size);
+  }
+  return planarData;
+};
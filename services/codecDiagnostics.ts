@@ -0,0 +1,142 @@
+import { OutputResolution, VideoCodecId, AudioCodecId } from '../types';
+import { CANVAS_RESOLUTIONS, AUDIO_SAMPLE_RATES } from '../constants';
+import {
+  CONTAINER_CODECS, VIDEO_CODEC_LABELS, AUDIO_CODEC_STRINGS, getFallbackChain, getVideoCandidates, buildVideoConfig,
+  selectVideoCodec, selectAudioCodec
+} from './codecs';
+import { RenderJobConfig } from './renderProtocol';
+import { supportsSaveFilePicker, supportsOpfs } from './renderOutput';
+
+// Probes every encoder configuration the exporter could fall back to, so a report
+// shows why a render ended up with e.g. AVC instead of HEVC.
+
+const HARDWARE_MODES: HardwareAcceleration[] = ['no-preference', 'prefer-hardware', 'prefer-software'];
+
+export interface VideoProbeResult {
+  codec: VideoCodecId;
+  profile: string;
+  codecString: string;
+  resolution: OutputResolution;
+  width: number;
+  height: number;
+  hardwareAcceleration: HardwareAcceleration;
+  supported: boolean;
+  error?: string; // isConfigSupported rejected the config as invalid
+}
+
+export interface AudioProbeResult {
+  codec: AudioCodecId;
+  codecString: string;
+  sampleRate: number;
+  numberOfChannels: number;
+  supported: boolean;
+  error?: string;
+}
+
+// What a render with the current settings would use; the same checks as the render itself
+export interface CodecSelection {
+  videoChain: VideoCodecId[];
+  audioChain: AudioCodecId[];
+  video: { codec: VideoCodecId; codecString: string } | null;
+  audio: { codec: AudioCodecId; codecString: string } | null;
+  error?: string;
+}
+
+export interface CodecDiagnosticsReport {
+  generatedAt: string;
+  environment: {
+    userAgent: string;
+    hardwareConcurrency: number;
+    webCodecs: boolean;
+    saveFilePicker: boolean;
+    opfs: boolean;
+  };
+  settings: Omit<RenderJobConfig, 'settings' | 'output' | 'resume'>;
+  selection: CodecSelection;
+  video: VideoProbeResult[];
+  audio: AudioProbeResult[];
+}
+
+const checkSupport = async (probe: () => Promise<{ supported?: boolean }>) => {
+  try {
+    return { supported: !!(await probe()).supported };
+  } catch (e: any) {
+    return { supported: false, error: e?.message || String(e) };
+  }
+};
+
+const selectForJob = async (job: RenderJobConfig): Promise<CodecSelection> => {
+  const { format } = job;
+  const selection: CodecSelection = {
+    videoChain: getFallbackChain(format.videoCodec, CONTAINER_CODECS[format.container].video),
+    audioChain: getFallbackChain(format.audioCodec, CONTAINER_CODECS[format.container].audio),
+    video: null,
+    audio: null,
+  };
+  try {
+    const video = await selectVideoCodec(format.videoCodec, format.container, job.width, job.height, job.fps, job.videoBitrate, job.videoOptions);
+    selection.video = { codec: video.codec, codecString: video.config.codec };
+    const audio = await selectAudioCodec(format.audioCodec, format.container, job.sampleRate, job.numberOfChannels, job.audioBitrate);
+    selection.audio = { codec: audio.codec, codecString: audio.config.codec };
+  } catch (e: any) {
+    selection.error = e.message;
+  }
+  return selection;
+};
+
+// Codec × profile × resolution × hardware acceleration at the job's frame rate and
+// bitrate (scaled per resolution), plus every audio codec at each sample rate.
+export const runCodecDiagnostics = async (
+  job: RenderJobConfig,
+  onProgress: (done: number, total: number) => void = () => {}
+): Promise<CodecDiagnosticsReport> => {
+  const { settings: _settings, output: _output, resume: _resume, ...settings } = job;
+  const webCodecs = typeof VideoEncoder !== 'undefined' && typeof AudioEncoder !== 'undefined';
+  const report: CodecDiagnosticsReport = {
+    generatedAt: new Date().toISOString(),
+    environment: {
+      userAgent: navigator.userAgent,
+      hardwareConcurrency: navigator.hardwareConcurrency || 0,
+      webCodecs,
+      saveFilePicker: supportsSaveFilePicker(),
+      opfs: supportsOpfs(),
+    },
+    settings,
+    selection: { videoChain: [], audioChain: [], video: null, audio: null, error: 'WebCodecs is not available' },
+    video: [],
+    audio: [],
+  };
+  if (!webCodecs) return report;
+
+  const videoCodecs = Object.keys(VIDEO_CODEC_LABELS) as VideoCodecId[];
+  const audioCodecs = Object.keys(AUDIO_CODEC_STRINGS) as AudioCodecId[];
+  const resolutions = Object.keys(CANVAS_RESOLUTIONS) as OutputResolution[];
+  const videoProbes = videoCodecs.flatMap(codec => resolutions.flatMap(resolution => {
+    const { width, height } = CANVAS_RESOLUTIONS[resolution];
+    return getVideoCandidates(codec, width, height, job.fps).flatMap(({ profile, codecString }) =>
+      HARDWARE_MODES.map(hardwareAcceleration => ({ codec, profile, codecString, resolution, width, height, hardwareAcceleration }))
+    );
+  }));
+  const audioProbes = audioCodecs.flatMap(codec => AUDIO_SAMPLE_RATES.map(sampleRate => ({
+    codec, codecString: AUDIO_CODEC_STRINGS[codec], sampleRate, numberOfChannels: job.numberOfChannels,
+  })));
+  const total = videoProbes.length + audioProbes.length + 1;
+  let done = 0;
+
+  for (const probe of videoProbes) {
+    const bitrate = Math.round(job.videoBitrate * (probe.width * probe.height) / (job.width * job.height));
+    const config = buildVideoConfig(probe.codecString, probe.width, probe.height, job.fps, bitrate, { ...job.videoOptions, hardwareAcceleration: probe.hardwareAcceleration });
+    report.video.push({ ...probe, ...(await checkSupport(() => VideoEncoder.isConfigSupported(config))) });
+    onProgress(++done, total);
+  }
+
+  for (const probe of audioProbes) {
+    const config: AudioEncoderConfig = { codec: probe.codecString, sampleRate: probe.sampleRate, numberOfChannels: probe.numberOfChannels, bitrate: job.audioBitrate };
+    report.audio.push({ ...probe, ...(await checkSupport(() => AudioEncoder.isConfigSupported(config))) });
+    onProgress(++done, total);
+  }
+
+  report.selection = await selectForJob(job);
+  onProgress(++done, total);
+  return report;
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getAvcCodecString, getHevcCodecString, getVp9CodecString, getAv1CodecString, getFallbackChain, scaleBitrate } from './codecs';
+
+describe('getAvcCodecString', () => {
+  it('picks the lowest level that fits the frame size and rate', () => {
+    expect(getAvcCodecString('high', 1280, 720, 30)).toBe('avc1.64001f'); // 3.1
+    expect(getAvcCodecString('high', 1920, 1080, 30)).toBe('avc1.640028'); // 4.0
+    expect(getAvcCodecString('high', 1920, 1080, 60)).toBe('avc1.64002a'); // 4.2
+    expect(getAvcCodecString('high', 3840, 2160, 30)).toBe('avc1.640033'); // 5.1
+    expect(getAvcCodecString('high', 3840, 2160, 60)).toBe('avc1.640034'); // 5.2
+  });
+
+  it('counts partial macroblocks and swaps width and height alike', () => {
+    expect(getAvcCodecString('high', 1080, 1920, 30)).toBe(getAvcCodecString('high', 1920, 1080, 30));
+  });
+
+  it('encodes the baseline profile', () => {
+    expect(getAvcCodecString('baseline', 1280, 720, 30)).toBe('avc1.42001f');
+  });
+
+  it('falls back to the highest level beyond the table', () => {
+    expect(getAvcCodecString('high', 7680, 4320, 60)).toBe('avc1.640034');
+  });
+});
+
+describe('getHevcCodecString', () => {
+  it('picks the level from luma samples', () => {
+    expect(getHevcCodecString(1280, 720, 30)).toBe('hvc1.1.6.L93.B0');
+    expect(getHevcCodecString(1920, 1080, 30)).toBe('hvc1.1.6.L120.B0');
+    expect(getHevcCodecString(1920, 1080, 60)).toBe('hvc1.1.6.L123.B0');
+    expect(getHevcCodecString(3840, 2160, 60)).toBe('hvc1.1.6.L153.B0');
+  });
+});
+
+describe('getVp9CodecString / getAv1CodecString', () => {
+  it('picks the level from luma samples', () => {
+    expect(getVp9CodecString(1920, 1080, 30)).toBe('vp09.00.40.08');
+    expect(getVp9CodecString(3840, 2160, 60)).toBe('vp09.00.51.08');
+    expect(getAv1CodecString(1920, 1080, 30)).toBe('av01.0.08M.08');
+    expect(getAv1CodecString(3840, 2160, 60)).toBe('av01.0.13M.08');
+  });
+});
+
+describe('getFallbackChain', () => {
+  it('tries the preferred codec first, then the rest in order', () => {
+    expect(getFallbackChain('vp9', ['av1', 'vp9', 'avc'])).toEqual(['vp9', 'av1', 'avc']);
+  });
+
+  it('ignores a preference the container does not support', () => {
+    expect(getFallbackChain('hevc', ['vp9', 'av1'])).toEqual(['vp9', 'av1']);
+  });
+});
+
+describe('scaleBitrate', () => {
+  it('keeps bits per pixel of the 720p preset', () => {
+    expect(scaleBitrate(5000000, 1280, 720)).toBe(5000000);
+    expect(scaleBitrate(5000000, 1920, 1080)).toBe(11250000);
+    expect(scaleBitrate(5000000, 3840, 2160)).toBe(45000000);
+  });
+});
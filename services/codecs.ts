@@ -0,0 +1,248 @@
+import { OutputContainer, VideoCodecId, AudioCodecId } from '../types';
+
+// Level tables: [level id, max picture size, max rate] where size/rate are in
+// macroblocks for H.264 and luma samples for the others.
+
+// H.264 levels: [level_idc, max macroblocks per frame, max macroblocks per second]
+const AVC_LEVELS: Array<[number, number, number]> = [
+  [0x1f, 3600, 108000],   // 3.1
+  [0x20, 5120, 216000],   // 3.2
+  [0x28, 8192, 245760],   // 4.0
+  [0x2a, 8704, 522240],   // 4.2
+  [0x32, 22080, 589824],  // 5.0
+  [0x33, 36864, 983040],  // 5.1
+  [0x34, 36864, 2073600], // 5.2
+];
+
+// H.265 levels: [general_level_idc, max luma picture size, max luma samples per second]
+const HEVC_LEVELS: Array<[number, number, number]> = [
+  [93, 983040, 33177600],     // 3.1
+  [120, 2228224, 66846720],   // 4
+  [123, 2228224, 133693440],  // 4.1
+  [150, 8912896, 267386880],  // 5
+  [153, 8912896, 534773760],  // 5.1
+  [156, 8912896, 1069547520], // 5.2
+];
+
+// VP9 levels: [level * 10, max luma picture size, max luma samples per second]
+const VP9_LEVELS: Array<[number, number, number]> = [
+  [31, 983040, 36864000],    // 3.1
+  [40, 2228224, 83558400],   // 4
+  [41, 2228224, 160432128],  // 4.1
+  [50, 8912896, 311951360],  // 5
+  [51, 8912896, 588251136],  // 5.1
+  [52, 8912896, 1176502272], // 5.2
+];
+
+// AV1 levels: [seq_level_idx, max picture size, max display rate]
+const AV1_LEVELS: Array<[number, number, number]> = [
+  [5, 1065024, 84934656],    // 3.1
+  [8, 2359296, 127401984],   // 4.0
+  [9, 2359296, 254803968],   // 4.1
+  [12, 8912896, 267386880],  // 5.0
+  [13, 8912896, 534773760],  // 5.1
+  [14, 8912896, 1069547520], // 5.2
+];
+
+const findLevel = (levels: Array<[number, number, number]>, pictureSize: number, fps: number): number => {
+  const level = levels.find(([, maxSize, maxRate]) => pictureSize <= maxSize && pictureSize * fps <= maxRate) || levels[levels.length - 1];
+  return level[0];
+};
+
+const toHex = (value: number) => value.toString(16).padStart(2, '0');
+
+export const getAvcCodecString = (profile: 'high' | 'baseline', width: number, height: number, fps: number): string => {
+  const frameMbs = Math.ceil(width / 16) * Math.ceil(height / 16);
+  const profileIdc = profile === 'high' ? 0x64 : 0x42;
+  return `avc1.${toHex(profileIdc)}00${toHex(findLevel(AVC_LEVELS, frameMbs, fps))}`;
+};
+
+export const getHevcCodecString = (width: number, height: number, fps: number): string => {
+  return `hvc1.1.6.L${findLevel(HEVC_LEVELS, width * height, fps)}.B0`; // Main Profile, Main Tier
+};
+
+export const getVp9CodecString = (width: number, height: number, fps: number): string => {
+  return `vp09.00.${findLevel(VP9_LEVELS, width * height, fps)}.08`; // Profile 0, 8-bit
+};
+
+export const getAv1CodecString = (width: number, height: number, fps: number): string => {
+  return `av01.0.${String(findLevel(AV1_LEVELS, width * height, fps)).padStart(2, '0')}M.08`; // Main Profile, Main Tier, 8-bit
+};
+
+// Presets are tuned for 720p, so keep bits-per-pixel constant at higher resolutions
+export const scaleBitrate = (baseBitrate: number, width: number, height: number): number => {
+  return Math.round(baseBitrate * (width * height) / (1280 * 720));
+};
+
+export const VIDEO_CODEC_LABELS: Record<VideoCodecId, string> = {
+  hevc: 'HEVC (H.265)',
+  avc: 'AVC (H.264)',
+  vp9: 'VP9',
+  av1: 'AV1',
+};
+
+export const AUDIO_CODEC_LABELS: Record<AudioCodecId, string> = {
+  aac: 'AAC',
+  opus: 'Opus',
+};
+
+// Codecs each container can carry, in fallback order
+export const CONTAINER_CODECS: Record<OutputContainer, { video: VideoCodecId[]; audio: AudioCodecId[] }> = {
+  mp4: { video: ['hevc', 'avc', 'vp9', 'av1'], audio: ['aac', 'opus'] },
+  webm: { video: ['vp9', 'av1'], audio: ['opus'] },
+};
+
+export const CONTAINER_FILE_TYPES: Record<OutputContainer, { extension: string; mimeType: string; description: string }> = {
+  mp4: { extension: '.mp4', mimeType: 'video/mp4', description: 'MP4 Video' },
+  webm: { extension: '.webm', mimeType: 'video/webm', description: 'WebM Video' },
+};
+
+// Preferred codec first, then the rest of the container's chain
+export const getFallbackChain = <T extends string>(preferred: T, supported: T[]): T[] => {
+  return supported.includes(preferred) ? [preferred, ...supported.filter(c => c !== preferred)] : supported;
+};
+
+export interface VideoCodecCandidate {
+  profile: string;
+  codecString: string;
+}
+
+// Codec strings to try for one codec family, best profile first
+export const getVideoCandidates = (codec: VideoCodecId, width: number, height: number, fps: number): VideoCodecCandidate[] => {
+  switch (codec) {
+    case 'hevc': return [{ profile: 'Main', codecString: getHevcCodecString(width, height, fps) }];
+    case 'avc': return [
+      { profile: 'High', codecString: getAvcCodecString('high', width, height, fps) },
+      { profile: 'Baseline', codecString: getAvcCodecString('baseline', width, height, fps) },
+    ];
+    case 'vp9': return [{ profile: 'Profile 0', codecString: getVp9CodecString(width, height, fps) }];
+    case 'av1': return [{ profile: 'Main', codecString: getAv1CodecString(width, height, fps) }];
+  }
+};
+
+export const AUDIO_CODEC_STRINGS: Record<AudioCodecId, string> = {
+  aac: 'mp4a.40.2', // AAC-LC
+  opus: 'opus',
+};
+
+// Samples per encoded audio packet: AAC-LC frames are 1024 samples, Opus encodes 20 ms
+export const getAudioFrameSamples = (codec: AudioCodecId, sampleRate: number): number => {
+  return codec === 'aac' ? 1024 : Math.round(sampleRate * 0.02);
+};
+
+// Encoder options from the advanced panel that apply to every video codec
+export interface VideoEncodeOptions {
+  bitrateMode: VideoEncoderBitrateMode;
+  quantizer: number; // 0-51 on the H.264/H.265 scale
+  hardwareAcceleration: HardwareAcceleration;
+  latencyMode: LatencyMode;
+}
+
+// Quantizer range per codec
+const QUANTIZER_MAX: Record<VideoCodecId, number> = { avc: 51, hevc: 51, vp9: 63, av1: 63 };
+
+// Per-frame encode options; quantizer mode takes its QP from here instead of a bitrate
+export const getFrameEncodeOptions = (codec: VideoCodecId, options: VideoEncodeOptions, keyFrame: boolean): VideoEncoderEncodeOptions => {
+  if (options.bitrateMode !== 'quantizer') return { keyFrame };
+  const quantizer = Math.round(options.quantizer * QUANTIZER_MAX[codec] / QUANTIZER_MAX.avc);
+  // Only the avc member is in the DOM typings yet
+  return { keyFrame, [codec]: { quantizer } } as VideoEncoderEncodeOptions;
+};
+
+export const buildVideoConfig = (codec: string, width: number, height: number, fps: number, bitrate: number, options: VideoEncodeOptions): VideoEncoderConfig => ({
+  codec,
+  width,
+  height,
+  framerate: fps,
+  bitrateMode: options.bitrateMode,
+  ...(options.bitrateMode !== 'quantizer' && { bitrate }),
+  hardwareAcceleration: options.hardwareAcceleration,
+  latencyMode: options.latencyMode,
+});
+
+export interface VideoCodecChoice {
+  config: VideoEncoderConfig;
+  codec: VideoCodecId;
+  label: string;
+}
+
+export interface AudioCodecChoice {
+  config: AudioEncoderConfig;
+  codec: AudioCodecId;
+  label: string;
+}
+
+const isVideoConfigSupported = async (config: VideoEncoderConfig) => {
+  try {
+    return !!(await VideoEncoder.isConfigSupported(config)).supported;
+  } catch (e) {
+    return false; // Treat probe errors as unsupported
+  }
+};
+
+const isAudioConfigSupported = async (config: AudioEncoderConfig) => {
+  try {
+    return !!(await AudioEncoder.isConfigSupported(config)).supported;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Some browsers pass the static check but fail on configure if hardware resources
+// are missing, so a supported config is also tried on a throwaway encoder.
+const probeVideoConfig = async (config: VideoEncoderConfig): Promise<boolean> => {
+  if (!(await isVideoConfigSupported(config))) return false;
+  try {
+    let failed = false;
+    const dummyEncoder = new VideoEncoder({
+      output: () => {},
+      error: () => { failed = true; }
+    });
+    dummyEncoder.configure(config);
+    await dummyEncoder.flush();
+    const configured = dummyEncoder.state === 'configured' && !failed;
+    dummyEncoder.close();
+    return configured;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Walk the fallback chain (e.g. HEVC → AVC High → AVC Baseline → VP9 → AV1 for MP4).
+// The quick check only asks isConfigSupported; the render also configures a test encoder.
+export const selectVideoCodec = async (
+  preferred: VideoCodecId,
+  container: OutputContainer,
+  width: number,
+  height: number,
+  fps: number,
+  bitrate: number,
+  options: VideoEncodeOptions,
+  quickCheck = false
+): Promise<VideoCodecChoice> => {
+  for (const codec of getFallbackChain(preferred, CONTAINER_CODECS[container].video)) {
+    for (const { codecString } of getVideoCandidates(codec, width, height, fps)) {
+      const config = buildVideoConfig(codecString, width, height, fps, bitrate, options);
+      if (await (quickCheck ? isVideoConfigSupported(config) : probeVideoConfig(config))) {
+        return { config, codec, label: VIDEO_CODEC_LABELS[codec] };
+      }
+      console.warn(`${codecString} unsupported, trying next codec.`);
+    }
+  }
+  throw new Error(`No supported video encoder for ${container.toUpperCase()} at ${width}x${height}`);
+};
+
+export const selectAudioCodec = async (
+  preferred: AudioCodecId,
+  container: OutputContainer,
+  sampleRate: number,
+  numberOfChannels: number,
+  bitrate: number
+): Promise<AudioCodecChoice> => {
+  for (const codec of getFallbackChain(preferred, CONTAINER_CODECS[container].audio)) {
+    const config: AudioEncoderConfig = { codec: AUDIO_CODEC_STRINGS[codec], sampleRate, numberOfChannels, bitrate };
+    if (await isAudioConfigSupported(config)) return { config, codec, label: AUDIO_CODEC_LABELS[codec] };
+    console.warn(`${config.codec} audio unsupported, trying next codec.`);
+  }
+  throw new Error(`No supported audio encoder for ${container.toUpperCase()}`);
+};
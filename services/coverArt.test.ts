@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { getCoverArt } from './coverArt';
+
+type Part = string | number[] | Uint8Array;
+
+const concat = (...parts: Part[]) => {
+  const arrays = parts.map(part => typeof part === 'string' ? Uint8Array.from(part, c => c.charCodeAt(0)) : Uint8Array.from(part));
+  const out = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    out.set(array, offset);
+    offset += array.length;
+  }
+  return out;
+};
+
+const u32 = (n: number) => [n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const u24 = (n: number) => u32(n).slice(1);
+const synchsafe = (n: number) => [(n >>> 21) & 0x7f, (n >>> 14) & 0x7f, (n >>> 7) & 0x7f, n & 0x7f];
+
+const image = (length: number, fill: number) => new Uint8Array(length).fill(fill);
+const toFile = (bytes: Uint8Array, name = 'track') => new File([bytes], name);
+const readBytes = async (blob: Blob | null) => Array.from(new Uint8Array(await blob!.arrayBuffer()));
+
+const id3 = (version: number, frames: Uint8Array) => concat('ID3', [version, 0, 0], synchsafe(frames.length + 16), frames, new Uint8Array(16)); // padded
+const apic = (version: 3 | 4, type: number, data: Uint8Array, description: Part = ['d'.charCodeAt(0), 0], encoding = 0) => {
+  const body = concat([encoding], 'image/png', [0, type], description, data);
+  return concat('APIC', version === 4 ? synchsafe(body.length) : u32(body.length), [0, 0], body);
+};
+
+const box = (name: string, ...children: Part[]) => {
+  const body = concat(...children);
+  return concat(u32(body.length + 8), name, body);
+};
+
+describe('getCoverArt', () => {
+  it('prefers the front cover among ID3v2.3 pictures', async () => {
+    const file = toFile(id3(3, concat(apic(3, 0, image(4, 1)), apic(3, 3, image(4, 2)))));
+    const cover = await getCoverArt(file);
+    expect(cover!.type).toBe('image/png');
+    expect(await readBytes(cover)).toEqual([2, 2, 2, 2]);
+  });
+
+  it('reads ID3v2.4 synchsafe frame sizes and UTF-16 descriptions', async () => {
+    const description = [0xff, 0xfe, 'a'.charCodeAt(0), 0, 0, 0];
+    const file = toFile(id3(4, apic(4, 3, image(300, 7), description, 1)));
+    expect(await readBytes(await getCoverArt(file))).toEqual(Array.from(image(300, 7)));
+  });
+
+  it('reads ID3v2.2 PIC frames', async () => {
+    const body = concat([0], 'PNG', [3, 0], image(3, 9));
+    const cover = await getCoverArt(toFile(id3(2, concat('PIC', u24(body.length), body))));
+    expect(cover!.type).toBe('image/png');
+    expect(await readBytes(cover)).toEqual([9, 9, 9]);
+  });
+
+  it('reads FLAC PICTURE blocks after the stream info', async () => {
+    const picture = concat(u32(3), u32(10), 'image/jpeg', u32(0), new Uint8Array(16), u32(5), image(5, 4));
+    const file = toFile(concat('fLaC', [0], u24(34), new Uint8Array(34), [0x80 | 6], u24(picture.length), picture));
+    const cover = await getCoverArt(file);
+    expect(cover!.type).toBe('image/jpeg');
+    expect(await readBytes(cover)).toEqual([4, 4, 4, 4, 4]);
+  });
+
+  it('walks MP4 boxes down to the covr data', async () => {
+    const ilst = box('ilst', box('©nam', box('data', u32(1), u32(0), 'Title')), box('covr', box('data', u32(14), u32(0), image(6, 5))));
+    const moov = box('moov', box('mvhd', new Uint8Array(100)), box('udta', box('meta', [0, 0, 0, 0], box('hdlr', new Uint8Array(25)), ilst)));
+    const cover = await getCoverArt(toFile(concat(box('ftyp', 'M4A ', u32(0)), moov, box('mdat', image(50, 0)))));
+    expect(cover!.type).toBe('image/png');
+    expect(await readBytes(cover)).toEqual([5, 5, 5, 5, 5, 5]);
+  });
+
+  it('is null without an embedded picture', async () => {
+    expect(await getCoverArt(toFile(id3(3, concat('TIT2', u32(3), [0, 0], [0, 'x'.charCodeAt(0), 0]))))).toBeNull();
+    expect(await getCoverArt(toFile(concat('RIFF', image(60, 0))))).toBeNull();
+    expect(await getCoverArt(toFile(new Uint8Array(0)))).toBeNull();
+  });
+
+  it('reads each file once', () => {
+    const file = toFile(id3(3, apic(3, 3, image(4, 1))));
+    expect(getCoverArt(file)).toBe(getCoverArt(file));
+  });
+});
@@ -0,0 +1,168 @@
+import { VisualSettings } from '../types';
+
+// Cover art embedded in audio files: ID3v2 APIC/PIC (MP3), FLAC PICTURE blocks and
+// MP4 'covr' atoms (M4A/AAC). Only the tag is read, not the whole file.
+
+// ID3v2 / FLAC picture type of the front cover, preferred over any other picture
+const FRONT_COVER = 3;
+
+const covers = new WeakMap<File, Promise<Blob | null>>();
+
+const read = async (file: File, start: number, length: number) =>
+  new DataView(await file.slice(start, start + length).arrayBuffer());
+
+const readText = (view: DataView, start: number, length: number) =>
+  String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + start, length));
+
+const synchsafe = (view: DataView, offset: number) =>
+  ((view.getUint8(offset) & 0x7f) << 21) | ((view.getUint8(offset + 1) & 0x7f) << 14) | ((view.getUint8(offset + 2) & 0x7f) << 7) | (view.getUint8(offset + 3) & 0x7f);
+
+// End of a null-terminated string; UTF-16 encodings (1, 2) end with a 16-bit zero
+const findTerminator = (bytes: Uint8Array, start: number, encoding: number) => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = start; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i + (wide ? 2 : 1);
+  }
+  return bytes.length;
+};
+
+interface Picture {
+  type: number;
+  blob: Blob;
+}
+
+const pickCover = (pictures: Picture[]) =>
+  (pictures.find(picture => picture.type === FRONT_COVER) ?? pictures[0])?.blob ?? null;
+
+// Unsynchronised tags (rare since ID3v2.4) are not undone, so their pictures may not decode
+const readId3Cover = async (file: File): Promise<Blob | null> => {
+  const header = await read(file, 0, 10);
+  if (header.byteLength < 10 || readText(header, 0, 3) !== 'ID3') return null;
+  const version = header.getUint8(3);
+  const flags = header.getUint8(5);
+  const tag = new Uint8Array(await file.slice(10, 10 + synchsafe(header, 6)).arrayBuffer());
+  const view = new DataView(tag.buffer);
+
+  let offset = 0;
+  if (flags & 0x40 && version >= 3) offset = version === 4 ? synchsafe(view, 0) : view.getUint32(0) + 4;
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  const pictures: Picture[] = [];
+
+  while (offset + headerLength <= tag.length) {
+    const id = readText(view, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // padding
+    const size = version === 2 ? (view.getUint32(offset + 3) >>> 8)
+      : version === 4 ? synchsafe(view, offset + 4) : view.getUint32(offset + 4);
+    const start = offset + headerLength;
+    offset = start + size;
+    if (id !== 'APIC' && id !== 'PIC') continue;
+
+    const frame = tag.subarray(start, Math.min(tag.length, offset));
+    const encoding = frame[0];
+    let position: number;
+    let mime: string;
+    if (id === 'PIC') {
+      const format = readText(new DataView(frame.buffer, frame.byteOffset), 1, 3).toLowerCase();
+      mime = format === 'png' ? 'image/png' : 'image/jpeg';
+      position = 4;
+    } else {
+      const mimeEnd = findTerminator(frame, 1, 0);
+      mime = readText(new DataView(frame.buffer, frame.byteOffset), 1, mimeEnd - 2) || 'image/jpeg';
+      position = mimeEnd;
+    }
+    const type = frame[position];
+    position = findTerminator(frame, position + 1, encoding);
+    pictures.push({ type, blob: new Blob([frame.slice(position)], { type: mime.includes('/') ? mime : `image/${mime}` }) });
+  }
+  return pickCover(pictures);
+};
+
+const readFlacCover = async (file: File): Promise<Blob | null> => {
+  const magic = await read(file, 0, 4);
+  if (magic.byteLength < 4 || readText(magic, 0, 4) !== 'fLaC') return null;
+  const pictures: Picture[] = [];
+  let offset = 4;
+  for (let last = false; !last && offset + 4 <= file.size;) {
+    const header = await read(file, offset, 4);
+    last = (header.getUint8(0) & 0x80) !== 0;
+    const type = header.getUint8(0) & 0x7f;
+    const length = header.getUint32(0) & 0xffffff;
+    offset += 4;
+    if (type === 6) {
+      const block = await read(file, offset, length);
+      let position = 4;
+      const mimeLength = block.getUint32(position);
+      const mime = readText(block, position + 4, mimeLength);
+      position += 4 + mimeLength;
+      position += 4 + block.getUint32(position); // description
+      position += 16; // width, height, depth, colours
+      const dataLength = block.getUint32(position);
+      const data = new Uint8Array(block.buffer, block.byteOffset + position + 4, dataLength);
+      pictures.push({ type: block.getUint32(0), blob: new Blob([data.slice()], { type: mime }) });
+    }
+    offset += length;
+  }
+  return pickCover(pictures);
+};
+
+// moov > udta > meta > ilst > covr > data, walking box headers only
+const MP4_COVER_PATH = ['moov', 'udta', 'meta', 'ilst', 'covr', 'data'];
+// 'data' type codes for cover images
+const MP4_IMAGE_TYPES: Record<number, string> = { 13: 'image/jpeg', 14: 'image/png', 27: 'image/bmp' };
+
+const readMp4Cover = async (file: File): Promise<Blob | null> => {
+  const first = await read(file, 4, 4);
+  if (first.byteLength < 4 || readText(first, 0, 4) !== 'ftyp') return null;
+  let start = 0;
+  let end = file.size;
+  for (const name of MP4_COVER_PATH) {
+    let found = false;
+    for (let offset = start; offset + 8 <= end;) {
+      const header = await read(file, offset, 16);
+      let size = header.getUint32(0);
+      let headerLength = 8;
+      if (size === 1) {
+        size = Number(header.getBigUint64(8));
+        headerLength = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < headerLength) return null;
+      if (readText(header, 4, 4) === name) {
+        // 'meta' is a full box: version and flags before its children
+        start = offset + headerLength + (name === 'meta' ? 4 : 0);
+        end = offset + size;
+        found = true;
+        break;
+      }
+      offset += size;
+    }
+    if (!found) return null;
+  }
+  // 'data' payload: type (4 bytes), locale (4 bytes), then the image
+  const type = (await read(file, start, 4)).getUint32(0) & 0xffffff;
+  return new Blob([await file.slice(start + 8, end).arrayBuffer()], { type: MP4_IMAGE_TYPES[type] ?? 'image/jpeg' });
+};
+
+// The track's embedded cover, or null if it has none; read once per File
+export const getCoverArt = (file: File): Promise<Blob | null> => {
+  let cover = covers.get(file);
+  if (!cover) {
+    cover = (async () => {
+      for (const reader of [readId3Cover, readFlacCover, readMp4Cover]) {
+        const blob = await reader(file);
+        if (blob && blob.size > 0) return blob;
+      }
+      return null;
+    })().catch(e => {
+      console.warn("Cover art read failed", file.name, e);
+      return null;
+    });
+    covers.set(file, cover);
+  }
+  return cover;
+};
+
+// Whether the look shows each track's cover, so it has to follow the playlist
+export const usesCoverArt = (settings: VisualSettings) => settings.spectrumStyle === 'circle' && settings.discImage === 'cover';
@@ -0,0 +1,21 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { withStore } from './database';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('withStore', () => {
+  it('runs every transaction on one connection', async () => {
+    const open = vi.spyOn(indexedDB, 'open');
+    for (let i = 0; i < 5; i++) await withStore('spectrumCache', 'readwrite', store => store.put(i, `key-${i}`));
+    expect(await withStore('spectrumCache', 'readonly', store => store.get('key-4'))).toBe(4);
+    expect(open).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects when the request fails, leaving the connection usable', async () => {
+    await expect(withStore('spectrumCache', 'readwrite', store => store.add(1, 'key-0'))).rejects.toThrow();
+    expect(await withStore('spectrumCache', 'readonly', store => store.get('key-0'))).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+// The app's IndexedDB database. Each store belongs to one module; bump the version
+// when adding a store so existing databases get it on upgrade.
+
+const DB_NAME = 'spectrum-studio';
+const DB_VERSION = 3;
+
+export type StoreName = 'renderCheckpoint' | 'spectrumCache';
+const STORES: StoreName[] = ['renderCheckpoint', 'spectrumCache'];
+// Stores emptied when upgrading past a version because their record format changed
+const CLEARED_STORES: Record<number, StoreName[]> = {
+  3: ['spectrumCache'], // full-resolution matrices replaced by compact chunks
+};
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = (event) => {
+    const db = request.result;
+    Object.entries(CLEARED_STORES).forEach(([version, names]) => {
+      if (event.oldVersion === 0 || event.oldVersion >= Number(version)) return;
+      names.forEach(name => { if (db.objectStoreNames.contains(name)) db.deleteObjectStore(name); });
+    });
+    STORES.forEach(name => { if (!db.objectStoreNames.contains(name)) db.createObjectStore(name); });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+let connection: Promise<IDBDatabase> | null = null;
+
+// One connection for the session, shared by every transaction; opened again if the
+// browser closes it or another tab needs to upgrade the database
+const getDatabase = () => {
+  connection ??= openDatabase().then(db => {
+    db.onclose = () => { connection = null; };
+    db.onversionchange = () => {
+      db.close();
+      connection = null;
+    };
+    return db;
+  }, e => {
+    connection = null;
+    throw e;
+  });
+  return connection;
+};
+
+// Runs one request against a store in its own transaction
+export const withStore = async <T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await getDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(name, mode);
+    const request = run(transaction.objectStore(name));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { readBoxes, readFragment, stitchFragmentedMp4, createFragmentWriter, FragmentFile, FragmentProgress, VIDEO_TRACK_ID, AUDIO_TRACK_ID } from './fragmentedMp4';
+
+const concat = (...parts: (string | number[] | Uint8Array)[]) => {
+  const arrays = parts.map(part => typeof part === 'string' ? Uint8Array.from(part, c => c.charCodeAt(0)) : Uint8Array.from(part));
+  const out = new Uint8Array(arrays.reduce((sum, array) => sum + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    out.set(array, offset);
+    offset += array.length;
+  }
+  return out;
+};
+
+const u32 = (n: number) => [n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const u64 = (n: number) => [...u32(Math.floor(n / 2 ** 32)), ...u32(n % 2 ** 32)];
+const box = (type: string, ...children: (string | number[] | Uint8Array)[]) => {
+  const body = concat(...children);
+  return concat(u32(body.length + 8), type, body);
+};
+const fullBox = (type: string, version: number, flags: number, ...children: (string | number[] | Uint8Array)[]) =>
+  box(type, [version, (flags >>> 16) & 0xff, (flags >>> 8) & 0xff, flags & 0xff], ...children);
+
+interface TrackSpec {
+  trackId: number;
+  base: number;
+  longTime?: boolean; // 64-bit tfdt
+  defaultDuration?: number; // with count, instead of per-sample durations
+  count?: number;
+  durations?: number[];
+}
+
+// moof with mfhd, then a traf (tfhd, tfdt, trun) per track, the way mp4-muxer lays them out
+const moof = (sequence: number, tracks: TrackSpec[]) => box('moof',
+  fullBox('mfhd', 0, 0, u32(sequence)),
+  ...tracks.map(track => box('traf',
+    fullBox('tfhd', 0, track.durations ? 0 : 0x8, u32(track.trackId), track.durations ? [] : u32(track.defaultDuration!)),
+    track.longTime ? fullBox('tfdt', 1, 0, u64(track.base)) : fullBox('tfdt', 0, 0, u32(track.base)),
+    fullBox('trun', 0, track.durations ? 0x101 : 0x1, u32(track.durations?.length ?? track.count!), u32(0), ...(track.durations ?? []).map(u32)),
+  )),
+);
+
+// One second of 30 fps video and 48 kHz AAC, starting at frame `frame`
+const fragment = (sequence: number, frame: number) => concat(
+  moof(sequence, [
+    { trackId: VIDEO_TRACK_ID, base: frame, defaultDuration: 1, count: 30 },
+    { trackId: AUDIO_TRACK_ID, base: frame * 1600, longTime: true, durations: Array(46).fill(1024).concat(896) },
+  ]),
+  box('mdat', new Uint8Array(64).fill(sequence)),
+);
+
+const HEADER = concat(box('ftyp', 'isom', u32(0)), box('moov', new Uint8Array(40)));
+
+const view = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+// Sequence number and per-track timing of every fragment in a file
+const readFragments = (data: Uint8Array) => {
+  const v = view(data);
+  return readBoxes(v).filter(b => b.type === 'moof').map(b => ({
+    sequence: v.getUint32(b.start + 8 + 12),
+    tracks: readFragment(v, b).map(track => [track.trackId, track.baseDecodeTime, track.duration]),
+  }));
+};
+
+describe('readFragment', () => {
+  it('reads each track\'s start and duration', () => {
+    const data = fragment(1, 60);
+    expect(readFragment(view(data), readBoxes(view(data))[0])).toEqual([
+      { trackId: VIDEO_TRACK_ID, baseDecodeTime: 60, duration: 30 },
+      { trackId: AUDIO_TRACK_ID, baseDecodeTime: 96000, duration: 48000 },
+    ]);
+  });
+
+  it('renumbers and shifts in place, 32- and 64-bit decode times alike', () => {
+    const data = fragment(1, 0);
+    readFragment(view(data), readBoxes(view(data))[0], { sequence: 5, time: { [VIDEO_TRACK_ID]: 90, [AUDIO_TRACK_ID]: 2 ** 33 } });
+    expect(readFragments(data)).toEqual([{ sequence: 6, tracks: [[VIDEO_TRACK_ID, 90, 30], [AUDIO_TRACK_ID, 2 ** 33, 48000]] }]);
+  });
+
+  it('rejects a truncated box', () => {
+    expect(() => readBoxes(view(fragment(1, 0).subarray(0, 50)))).toThrow("Truncated MP4 box 'moof'");
+  });
+});
+
+describe('stitchFragmentedMp4', () => {
+  it('keeps the first header and appends every range renumbered and shifted', async () => {
+    const mfra = box('mfra', new Uint8Array(16));
+    const segment = new Blob([concat(HEADER, fragment(1, 0), fragment(2, 30), mfra)]);
+    const parts: Uint8Array[] = [];
+    await stitchFragmentedMp4([
+      { file: segment, time: { [VIDEO_TRACK_ID]: 0, [AUDIO_TRACK_ID]: 0 } },
+      { file: segment, time: { [VIDEO_TRACK_ID]: 60, [AUDIO_TRACK_ID]: 96000 } },
+    ], async data => { parts.push(data); });
+
+    const output = concat(...parts);
+    expect(readBoxes(view(output)).map(b => b.type)).toEqual(['ftyp', 'moov', 'moof', 'mdat', 'moof', 'mdat', 'moof', 'mdat', 'moof', 'mdat']);
+    expect(readFragments(output).map(f => [f.sequence, f.tracks[0][1], f.tracks[1][1]])).toEqual([
+      [1, 0, 0], [2, 30, 48000], [3, 60, 96000], [4, 90, 144000],
+    ]);
+  });
+});
+
+// An OPFS sync access handle over a growing byte array
+const createFile = () => {
+  let bytes = new Uint8Array(0);
+  let flushes = 0;
+  const file: FragmentFile = {
+    write: (buffer, options) => {
+      const data = ArrayBuffer.isView(buffer) ? new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength) : new Uint8Array(buffer);
+      const at = options?.at ?? 0;
+      if (at + data.length > bytes.length) {
+        const grown = new Uint8Array(at + data.length);
+        grown.set(bytes);
+        bytes = grown;
+      }
+      bytes.set(data, at);
+      return data.length;
+    },
+    flush: () => { flushes++; },
+  };
+  return { file, getBytes: () => bytes, getFlushes: () => flushes };
+};
+
+describe('createFragmentWriter', () => {
+  it('writes a fresh render as is and reports each flushed fragment', () => {
+    const { file, getBytes, getFlushes } = createFile();
+    const progress: FragmentProgress[] = [];
+    const write = createFragmentWriter(file, undefined, p => progress.push(p));
+    const first = fragment(1, 0);
+    write(HEADER, 0);
+    expect(progress).toEqual([]);
+    write(first, HEADER.length);
+
+    expect(Array.from(getBytes())).toEqual(Array.from(concat(HEADER, first)));
+    expect(getFlushes()).toBe(1);
+    expect(progress).toEqual([{ frameIndex: 30, audioSample: 48000, byteOffset: HEADER.length + first.length, fragmentCount: 1 }]);
+  });
+
+  it('continues a resumed render after its last complete fragment', () => {
+    const { file, getBytes } = createFile();
+    const existing = concat(HEADER, fragment(1, 0), fragment(2, 30));
+    file.write(existing, { at: 0 });
+    const resumed = { frameIndex: 60, audioSample: 96000, byteOffset: existing.length, fragmentCount: 2 };
+    const progress: FragmentProgress[] = [];
+    const write = createFragmentWriter(file, resumed, p => progress.push(p));
+
+    // The new muxer starts over: its own header, then fragments from sequence 1 and time 0
+    write(HEADER, 0);
+    const next = fragment(1, 0);
+    write(next, HEADER.length);
+
+    expect(getBytes().length).toBe(existing.length + next.length);
+    expect(readFragments(getBytes()).map(f => [f.sequence, f.tracks[0][1], f.tracks[1][1]])).toEqual([
+      [1, 0, 0], [2, 30, 48000], [3, 60, 96000],
+    ]);
+    expect(progress).toEqual([{ frameIndex: 90, audioSample: 144000, byteOffset: existing.length + next.length, fragmentCount: 3 }]);
+  });
+
+  it('rejects writes that are not sequential', () => {
+    const write = createFragmentWriter(createFile().file, undefined, () => {});
+    expect(() => write(HEADER, 8)).toThrow("written sequentially");
+  });
+});
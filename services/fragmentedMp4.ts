@@ -0,0 +1,198 @@
+import { RenderProgress } from './renderProtocol';
+
+// Box-level helpers for the fragmented MP4 written by mp4-muxer. A resumed render
+// or a parallel range runs a fresh muxer whose fragments start at sequence 1 and
+// time 0, so they are renumbered and shifted before being appended to the file.
+
+// mp4-muxer track ids
+export const VIDEO_TRACK_ID = 1;
+export const AUDIO_TRACK_ID = 2;
+
+export interface Mp4Box {
+  type: string;
+  start: number;
+  size: number;
+}
+
+// Per-track timing of one fragment, in the track's timescale
+export interface TrackFragment {
+  trackId: number;
+  baseDecodeTime: number;
+  duration: number;
+}
+
+export interface FragmentShift {
+  sequence: number;
+  time: Record<number, number>; // by track id
+}
+
+// Top-level boxes between start and end
+export const readBoxes = (view: DataView, start = 0, end = view.byteLength): Mp4Box[] => {
+  const boxes: Mp4Box[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = view.getUint32(pos);
+    const type = String.fromCharCode(view.getUint8(pos + 4), view.getUint8(pos + 5), view.getUint8(pos + 6), view.getUint8(pos + 7));
+    if (size === 1) size = Number(view.getBigUint64(pos + 8));
+    else if (size === 0) size = end - pos;
+    if (size < 8 || pos + size > end) throw new Error(`Truncated MP4 box '${type}'`);
+    boxes.push({ type, start: pos, size });
+    pos += size;
+  }
+  return boxes;
+};
+
+// Box header (8) + version/flags (4)
+const FULL_BOX_HEADER = 12;
+
+const readTrackFragment = (view: DataView, traf: Mp4Box, shift: FragmentShift | null): TrackFragment => {
+  let trackId = 0;
+  let defaultDuration = 0;
+  let baseDecodeTime = 0;
+  let duration = 0;
+
+  for (const box of readBoxes(view, traf.start + 8, traf.start + traf.size)) {
+    const flags = view.getUint32(box.start + 8) & 0xffffff;
+    let pos = box.start + FULL_BOX_HEADER;
+
+    if (box.type === 'tfhd') {
+      trackId = view.getUint32(pos);
+      pos += 4;
+      if (flags & 0x1) pos += 8; // base data offset
+      if (flags & 0x2) pos += 4; // sample description index
+      if (flags & 0x8) defaultDuration = view.getUint32(pos);
+    } else if (box.type === 'tfdt') {
+      const version = view.getUint8(box.start + 8);
+      baseDecodeTime = version === 1 ? Number(view.getBigUint64(pos)) : view.getUint32(pos);
+      const offset = shift?.time[trackId] ?? 0;
+      if (offset) {
+        baseDecodeTime += offset;
+        if (version === 1) view.setBigUint64(pos, BigInt(baseDecodeTime));
+        else view.setUint32(pos, baseDecodeTime);
+      }
+    } else if (box.type === 'trun') {
+      const sampleCount = view.getUint32(pos);
+      pos += 4;
+      if (flags & 0x1) pos += 4; // data offset
+      if (flags & 0x4) pos += 4; // first sample flags
+      if (!(flags & 0x100)) {
+        duration += sampleCount * defaultDuration;
+        continue;
+      }
+      const sampleFieldBytes = 4 * [0x100, 0x200, 0x400, 0x800].filter(bit => flags & bit).length;
+      for (let i = 0; i < sampleCount; i++, pos += sampleFieldBytes) {
+        duration += view.getUint32(pos);
+      }
+    }
+  }
+
+  return { trackId, baseDecodeTime, duration };
+};
+
+// Reads (and with a shift, rewrites in place) the timing of a moof box
+export const readFragment = (view: DataView, moof: Mp4Box, shift: FragmentShift | null = null): TrackFragment[] => {
+  const tracks: TrackFragment[] = [];
+  for (const box of readBoxes(view, moof.start + 8, moof.start + moof.size)) {
+    if (box.type === 'mfhd' && shift) {
+      const pos = box.start + FULL_BOX_HEADER;
+      view.setUint32(pos, view.getUint32(pos) + shift.sequence);
+    } else if (box.type === 'traf') {
+      tracks.push(readTrackFragment(view, box, shift));
+    }
+  }
+  return tracks;
+};
+
+// A fragmented MP4 rendered for one time range, and where that range starts on the
+// output timeline per track id (in the track's timescale)
+export interface Mp4Segment {
+  file: Blob;
+  time: Record<number, number>;
+}
+
+// Reads the header of the box at pos without loading the box itself
+const readBoxHeader = async (file: Blob, pos: number): Promise<Mp4Box> => {
+  const view = new DataView(await file.slice(pos, pos + 16).arrayBuffer());
+  if (view.byteLength < 8) throw new Error("Truncated MP4 box header");
+  let size = view.getUint32(0);
+  const type = String.fromCharCode(view.getUint8(4), view.getUint8(5), view.getUint8(6), view.getUint8(7));
+  if (size === 1) size = Number(view.getBigUint64(8));
+  else if (size === 0) size = file.size - pos;
+  if (size < 8 || pos + size > file.size) throw new Error(`Truncated MP4 box '${type}'`);
+  return { type, start: pos, size };
+};
+
+// Joins segments into one file: the header of the first segment, then the fragments
+// of every segment renumbered and shifted to its start time. Works one box at a time,
+// so only a single fragment is in memory.
+export const stitchFragmentedMp4 = async (segments: Mp4Segment[], write: (data: Uint8Array) => Promise<void>) => {
+  let sequence = 0;
+  for (const [index, segment] of segments.entries()) {
+    const shift: FragmentShift = { sequence, time: segment.time };
+    for (let pos = 0; pos < segment.file.size;) {
+      const box = await readBoxHeader(segment.file, pos);
+      pos += box.size;
+      // Later segments repeat the header; the random access index points into its own segment
+      if (box.type === 'mfra' || (index > 0 && (box.type === 'ftyp' || box.type === 'moov'))) continue;
+
+      const data = new Uint8Array(await segment.file.slice(box.start, box.start + box.size).arrayBuffer());
+      if (box.type === 'moof') {
+        readFragment(new DataView(data.buffer), { ...box, start: 0 }, shift);
+        sequence++;
+      }
+      await write(data);
+    }
+  }
+};
+
+// Where the output stands after a fragment: RenderProgress without the scene
+export type FragmentProgress = Omit<RenderProgress, 'scene'>;
+
+// The calls the writer makes on the work file's OPFS sync access handle
+export interface FragmentFile {
+  write: (buffer: BufferSource, options?: { at?: number }) => number;
+  flush: () => void;
+}
+
+// Appends fragmented MP4 output to the OPFS work file and reports a checkpoint once
+// each fragment is flushed to disk. On resume the new muxer's header is dropped and
+// its fragments are shifted to continue the existing file.
+export const createFragmentWriter = (file: FragmentFile, resumed: FragmentProgress | undefined, onFragment: (progress: FragmentProgress) => void) => {
+  const shift: FragmentShift | null = resumed ? {
+    sequence: resumed.fragmentCount,
+    time: { [VIDEO_TRACK_ID]: resumed.frameIndex, [AUDIO_TRACK_ID]: resumed.audioSample },
+  } : null;
+  let streamPos = 0; // position in the muxer's own output
+  let filePos = resumed?.byteOffset ?? 0;
+  let fragmentCount = resumed?.fragmentCount ?? 0;
+  let frameIndex = resumed?.frameIndex ?? 0;
+  let audioSample = resumed?.audioSample ?? 0;
+
+  return (data: Uint8Array, position: number) => {
+    if (position !== streamPos) throw new Error("Fragmented MP4 output must be written sequentially");
+    streamPos += data.byteLength;
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let fragmentDone = false;
+    for (const box of readBoxes(view)) {
+      // The existing file already has the header; its random access index would point at the old offsets
+      if (shift && (box.type === 'ftyp' || box.type === 'moov' || box.type === 'mfra')) continue;
+      if (box.type === 'moof') {
+        for (const track of readFragment(view, box, shift)) {
+          const end = track.baseDecodeTime + track.duration;
+          if (track.trackId === VIDEO_TRACK_ID) frameIndex = end; // Video timescale is the frame rate
+          else if (track.trackId === AUDIO_TRACK_ID) audioSample = end; // Audio timescale is the sample rate
+        }
+        fragmentCount++;
+        fragmentDone = true;
+      }
+      file.write(data.subarray(box.start, box.start + box.size), { at: filePos });
+      filePos += box.size;
+    }
+
+    if (fragmentDone) {
+      file.flush();
+      onFragment({ frameIndex, audioSample, byteOffset: filePos, fragmentCount });
+    }
+  };
+};
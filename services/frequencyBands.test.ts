@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { mapFrequencyBands } from './frequencyBands';
+import { DEFAULT_VISUAL_SETTINGS } from '../constants';
+import { VisualSettings } from '../types';
+
+const SAMPLE_RATE = 48000;
+const BIN_COUNT = 1024; // 23.4375 Hz per bin
+
+const settings = (overrides: Partial<VisualSettings>): VisualSettings => ({ ...DEFAULT_VISUAL_SETTINGS, ...overrides });
+
+// Level rises by one per bin, so a band's peak is its last bin and its average its middle
+const ramp = () => Float32Array.from({ length: BIN_COUNT }, (_, i) => i);
+
+describe('mapFrequencyBands', () => {
+  it('splits a linear scale into equal runs of bins', () => {
+    const linear = settings({ frequencyScale: 'linear', minFrequency: 0, maxFrequency: 24000, frequencyRange: 4 });
+    expect(Array.from(mapFrequencyBands(ramp(), SAMPLE_RATE, { ...linear, bandAggregation: 'peak' }))).toEqual([255, 511, 767, 1023]);
+    expect(Array.from(mapFrequencyBands(ramp(), SAMPLE_RATE, { ...linear, bandAggregation: 'average' }))).toEqual([127.5, 383.5, 639.5, 895.5]);
+  });
+
+  it('caps the top band at Nyquist', () => {
+    const capped = settings({ frequencyScale: 'linear', minFrequency: 0, maxFrequency: 96000, frequencyRange: 2, bandAggregation: 'peak' });
+    expect(Array.from(mapFrequencyBands(ramp(), SAMPLE_RATE, capped))).toEqual([511, 1023]);
+  });
+
+  it('gives the bass more bands on a log scale', () => {
+    const log = settings({ frequencyScale: 'log', minFrequency: 20, maxFrequency: 20000, frequencyRange: 3, bandAggregation: 'peak' });
+    const levels = new Float32Array(BIN_COUNT);
+    levels[Math.round(500 / 23.4375)] = 1; // 500 Hz: second decade
+    levels[Math.round(5000 / 23.4375)] = 0.5; // 5 kHz: third decade
+    expect(Array.from(mapFrequencyBands(levels, SAMPLE_RATE, log))).toEqual([0, 1, 0.5]);
+  });
+
+  it('interpolates bands narrower than a bin instead of repeating it', () => {
+    const narrow = settings({ frequencyScale: 'linear', minFrequency: 0, maxFrequency: 46.875, frequencyRange: 8 });
+    const bands = mapFrequencyBands(ramp(), SAMPLE_RATE, narrow);
+    // Quarter-bin bands, read at their centres
+    expect(bands[0]).toBeCloseTo(0.125);
+    expect(bands[3]).toBeCloseTo(0.875);
+  });
+
+  it('writes into the given buffer', () => {
+    const out = new Float32Array(4);
+    const linear = settings({ frequencyScale: 'linear', minFrequency: 0, maxFrequency: 24000, frequencyRange: 4 });
+    expect(mapFrequencyBands(ramp(), SAMPLE_RATE, linear, out)).toBe(out);
+  });
+});
@@ -0,0 +1,78 @@
+import { VisualSettings, FrequencyScale } from '../types';
+
+// Groups FFT bins into the spectrum's bars. Band edges are spaced evenly on the chosen
+// scale between min and max Hz, so on a log, mel or Bark scale the bass gets as many
+// bars as it is perceived to deserve instead of one or two.
+
+interface ScaleFunctions {
+  toScale: (hz: number) => number;
+  fromScale: (value: number) => number;
+}
+
+const SCALES: Record<FrequencyScale, ScaleFunctions> = {
+  linear: { toScale: hz => hz, fromScale: value => value },
+  log: { toScale: hz => Math.log10(Math.max(1, hz)), fromScale: value => Math.pow(10, value) },
+  mel: { toScale: hz => 2595 * Math.log10(1 + hz / 700), fromScale: mel => 700 * (Math.pow(10, mel / 2595) - 1) },
+  // Traunmüller's approximation
+  bark: { toScale: hz => (26.81 * hz) / (1960 + hz) - 0.53, fromScale: z => (1960 * (z + 0.53)) / (26.28 - z) },
+};
+
+// Bins [start, end) per band; a band narrower than one bin has end === start and is
+// interpolated at `center` (a fractional bin) instead, so neighbouring bars don't repeat
+interface BandMap {
+  key: string;
+  start: Uint32Array;
+  end: Uint32Array;
+  center: Float32Array;
+}
+
+let cachedMap: BandMap | null = null;
+
+const getBandMap = (settings: VisualSettings, binCount: number, sampleRate: number): BandMap => {
+  const { frequencyScale, minFrequency, maxFrequency, frequencyRange: bandCount } = settings;
+  const key = [frequencyScale, minFrequency, maxFrequency, bandCount, binCount, sampleRate].join(':');
+  if (cachedMap?.key === key) return cachedMap;
+
+  const { toScale, fromScale } = SCALES[frequencyScale];
+  const nyquist = sampleRate / 2;
+  const binHz = nyquist / binCount;
+  const high = Math.min(maxFrequency, nyquist);
+  const low = Math.min(minFrequency, high);
+  const scaleLow = toScale(low);
+  const scaleStep = (toScale(high) - scaleLow) / bandCount;
+  const edge = (band: number) => fromScale(scaleLow + band * scaleStep) / binHz; // in bins
+
+  const map: BandMap = { key, start: new Uint32Array(bandCount), end: new Uint32Array(bandCount), center: new Float32Array(bandCount) };
+  for (let band = 0; band < bandCount; band++) {
+    const lo = edge(band);
+    const hi = edge(band + 1);
+    map.start[band] = Math.min(binCount, Math.round(lo));
+    map.end[band] = Math.min(binCount, Math.max(map.start[band], Math.round(hi)));
+    map.center[band] = Math.min(binCount - 1, (lo + hi) / 2);
+  }
+  cachedMap = map;
+  return map;
+};
+
+// levels: 0-1 per FFT bin. Returns frequencyRange bands, each the peak or average of its bins.
+export const mapFrequencyBands = (levels: Float32Array, sampleRate: number, settings: VisualSettings, out = new Float32Array(settings.frequencyRange)) => {
+  const map = getBandMap(settings, levels.length, sampleRate);
+  for (let band = 0; band < out.length; band++) {
+    const start = map.start[band];
+    const end = map.end[band];
+    if (end <= start) {
+      const i = Math.floor(map.center[band]);
+      const t = map.center[band] - i;
+      out[band] = levels[i] * (1 - t) + (levels[i + 1] ?? levels[i]) * t;
+    } else if (settings.bandAggregation === 'peak') {
+      let max = 0;
+      for (let i = start; i < end; i++) max = Math.max(max, levels[i]);
+      out[band] = max;
+    } else {
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += levels[i];
+      out[band] = sum / (end - start);
+    }
+  }
+  return out;
+};
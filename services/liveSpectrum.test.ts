@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { createLiveSpectrum } from './liveSpectrum';
+import { DEFAULT_VISUAL_SETTINGS } from '../constants';
+
+const SAMPLE_RATE = 8000;
+const settings = { ...DEFAULT_VISUAL_SETTINGS, fftSize: 512 as const, fftWindow: 'hann' as const, minDecibels: -60, maxDecibels: 0, frequencyWeighting: 'none' as const };
+
+// An audio graph whose left output plays a 1 kHz sine (bin 64) and right one silence
+const createGraph = () => {
+  const connections: [string, number][] = [];
+  const splitter = {
+    channelInterpretation: 'discrete',
+    connect: (analyser: { name: string }, output: number) => { connections.push([analyser.name, output]); },
+  };
+  const analysers = ['left', 'right'].map(name => ({
+    name,
+    fftSize: 2048,
+    getFloatTimeDomainData(out: Float32Array) {
+      for (let i = 0; i < out.length; i++) out[i] = name === 'left' ? Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE) : 0;
+    },
+  }));
+  let created = 0;
+  const ctx = {
+    sampleRate: SAMPLE_RATE,
+    createChannelSplitter: () => splitter,
+    createAnalyser: () => analysers[created++],
+  } as unknown as BaseAudioContext;
+  const source = { connect: (node: unknown) => { connections.push([node === splitter ? 'splitter' : '?', 0]); } } as unknown as AudioNode;
+  return { ctx, source, splitter, analysers, connections };
+};
+
+const getLoudestBin = (levels: Float32Array) => levels.indexOf(Math.max(...levels));
+
+describe('createLiveSpectrum', () => {
+  it('splits the element into left and right, up-mixing mono to both', () => {
+    const { ctx, source, splitter, connections } = createGraph();
+    createLiveSpectrum(ctx, source);
+    expect(splitter.channelInterpretation).toBe('speakers');
+    expect(connections).toEqual([['left', 0], ['right', 1], ['splitter', 0]]);
+  });
+
+  it('analyses each channel with the cache\'s mixes at the look\'s FFT size', () => {
+    const { ctx, source, analysers } = createGraph();
+    const live = createLiveSpectrum(ctx, source);
+    const left = live.getLevels(settings, 'left');
+    expect(analysers.map(a => a.fftSize)).toEqual([512, 512]);
+    expect(left.length).toBe(256);
+    expect(getLoudestBin(left)).toBe(64);
+    expect(left[64]).toBeCloseTo(1, 1);
+    expect(Math.max(...live.getLevels(settings, 'right'))).toBe(0);
+    // Half of the sine in each: 6 dB down
+    const mid = live.getLevels(settings, 'mid');
+    expect(getLoudestBin(mid)).toBe(64);
+    expect(mid[64]).toBeCloseTo(54 / 60, 1);
+  });
+});
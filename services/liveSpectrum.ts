@@ -0,0 +1,72 @@
+import { VisualSettings } from '../types';
+import { createSpectrumAnalyser, SpectrumAnalyser } from './spectrumAnalysis';
+import { scaleAmplitudes } from './amplitudeScale';
+import { TrackSpectrum, SpectrumChannel, getChannelSources } from './spectrumCache';
+
+// The preview's audio analysed as it plays, for the moments before the current track's
+// cached spectrum is ready. A ChannelSplitterNode splits the element's output into left
+// and right, each captured by an AnalyserNode; their samples go through the same FFT and
+// channel mixes as the cache, so only the timing differs from what a render shows.
+
+export interface LiveSpectrum {
+  sampleRate: number;
+  // 0-1 per bin for the latest fftSize samples played, like getSpectrumLevels
+  getLevels: (settings: VisualSettings, channel: SpectrumChannel, out?: Float32Array) => Float32Array;
+}
+
+interface LiveAnalysis {
+  analyser: SpectrumAnalyser;
+  samples: Float32Array[]; // [left, right]
+  spectrum: TrackSpectrum; // what scaleAmplitudes needs: no frames, so no auto-gain
+}
+
+export const createLiveSpectrum = (ctx: BaseAudioContext, source: AudioNode): LiveSpectrum => {
+  const splitter = ctx.createChannelSplitter(2);
+  // Up-mixes a mono element to both sides instead of leaving the right one silent
+  splitter.channelInterpretation = 'speakers';
+  const analysers = [0, 1].map(output => {
+    const analyser = ctx.createAnalyser();
+    splitter.connect(analyser, output);
+    return analyser;
+  });
+  source.connect(splitter);
+
+  let analysis: LiveAnalysis | null = null;
+
+  const getAnalysis = (settings: VisualSettings) => {
+    const { fftSize, fftWindow } = settings;
+    if (analysis?.analyser.options.fftSize === fftSize && analysis.analyser.options.window === fftWindow) return analysis;
+    analysers.forEach(analyser => { analyser.fftSize = fftSize; });
+    const analyser = createSpectrumAnalyser({ fftSize, window: fftWindow });
+    analysis = {
+      analyser,
+      samples: analysers.map(() => new Float32Array(fftSize)),
+      spectrum: {
+        key: 'live',
+        fftSize,
+        window: fftWindow,
+        sampleRate: ctx.sampleRate,
+        fps: 0,
+        channels: [],
+        length: 0,
+        frameCount: 0,
+        binCount: analyser.binCount,
+        chunkFrames: 0,
+        rms: new Float32Array(0),
+        peak: new Float32Array(0),
+      },
+    };
+    return analysis;
+  };
+
+  const getLevels = (settings: VisualSettings, channel: SpectrumChannel, out?: Float32Array) => {
+    const { analyser, samples, spectrum } = getAnalysis(settings);
+    analysers.forEach((node, i) => node.getFloatTimeDomainData(samples[i]));
+    const [channels, mix] = getChannelSources(samples)[channel];
+    // Centred on the middle of the captured samples, so the window covers all of them
+    const decibels = analyser.getDecibels(channels, analyser.binCount, out, mix);
+    return scaleAmplitudes(decibels, spectrum, settings, decibels);
+  };
+
+  return { sampleRate: ctx.sampleRate, getLevels };
+};
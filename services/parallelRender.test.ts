@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { planRenderRanges, getTotalFrames, createSceneSimulation } from './parallelRender';
+import { getFrameSample } from './timelineRender';
+import { isAbortError } from './renderControl';
+import { DEFAULT_VISUAL_SETTINGS } from '../constants';
+
+const SAMPLE_RATE = 48000;
+const FPS = 30;
+const AAC_FRAME = 1024;
+
+describe('getTotalFrames', () => {
+  it('counts frames shown before the last sample', () => {
+    expect(getTotalFrames(1600, SAMPLE_RATE, FPS)).toBe(1);
+    expect(getTotalFrames(1601, SAMPLE_RATE, FPS)).toBe(2);
+    expect(getTotalFrames(60 * SAMPLE_RATE, SAMPLE_RATE, FPS)).toBe(1800);
+  });
+});
+
+describe('planRenderRanges', () => {
+  it('splits into contiguous ranges ending at the timeline end', () => {
+    const ranges = planRenderRanges(60 * SAMPLE_RATE, SAMPLE_RATE, FPS, AAC_FRAME, 4);
+    expect(ranges.map(range => range.startFrame)).toEqual([0, 448, 896, 1344]);
+    ranges.slice(1).forEach((range, i) => {
+      expect(range.startFrame).toBe(ranges[i].endFrame);
+      expect(range.startSample).toBe(ranges[i].endSample);
+    });
+    expect(ranges[ranges.length - 1].endFrame).toBe(Infinity);
+    expect(ranges[ranges.length - 1].endSample).toBe(Infinity);
+  });
+
+  it('cuts on both a frame and an audio packet boundary', () => {
+    for (const [sampleRate, fps, packet] of [[48000, 30, 1024], [44100, 60, 1024], [48000, 24, 960]]) {
+      const ranges = planRenderRanges(600 * sampleRate, sampleRate, fps, packet, 3);
+      expect(ranges.length).toBe(3);
+      for (const range of ranges.slice(1)) {
+        expect(range.startSample).toBe(getFrameSample(range.startFrame, sampleRate, fps));
+        expect(range.startSample % packet).toBe(0);
+        expect(Number.isInteger((range.startFrame * sampleRate) / fps)).toBe(true);
+      }
+    }
+  });
+
+  it('keeps a short timeline in one range', () => {
+    const ranges = planRenderRanges(15 * SAMPLE_RATE, SAMPLE_RATE, FPS, AAC_FRAME, 4);
+    expect(ranges).toEqual([{ startFrame: 0, endFrame: Infinity, startSample: 0, endSample: Infinity }]);
+  });
+});
+
+describe('createSceneSimulation', () => {
+  // No tracks, so only the particles and the disc move; each test its own seed, so its own checkpoints
+  const simulate = (seed: number, width: number, height: number, signal?: AbortSignal) => createSceneSimulation(
+    { ...DEFAULT_VISUAL_SETTINGS, particleEffect: 'snow', discRotation: 10, seed }, width, height, [], SAMPLE_RATE, FPS, signal
+  );
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('starts a later simulation of the same timeline from the nearest checkpoint', async () => {
+    const expected = await simulate(11, 1920, 1080)(1900);
+    // Replaying from frame 0 would yield to the UI after frame 999
+    const yields = vi.spyOn(globalThis, 'setTimeout');
+    expect(await simulate(11, 1920, 1080)(1900)).toEqual(expected);
+    // Same aspect ratio, same logical size and animation
+    expect(await simulate(11, 1280, 720)(1850)).toEqual(await simulate(11, 1920, 1080)(1850));
+    expect(yields).not.toHaveBeenCalled();
+  });
+
+  it('keeps the checkpoints of each timeline apart', async () => {
+    await simulate(12, 1920, 1080)(1900);
+    const yields = vi.spyOn(globalThis, 'setTimeout');
+    await simulate(13, 1920, 1080)(1900);
+    await simulate(12, 1080, 1920)(1900);
+    expect(yields).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    const simulation = simulate(14, 1920, 1080, controller.signal)(5000);
+    controller.abort();
+    await expect(simulation.catch(e => isAbortError(e))).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,155 @@
+import { VisualSettings } from '../types';
+import { Scene, createScene, advanceScene, snapshotScene, restoreScene, SceneSnapshot } from './scene';
+import { TimelineRange, getFrameSample } from './timelineRender';
+import { TrackSpectrum, getTrackSpectrum, getSpectrumLevels, getSpectrumCacheParams, getSpectrumChannels, loadSpectrumAt } from './spectrumCache';
+import { mapFrequencyBands } from './frequencyBands';
+
+// Splitting a render into time ranges for parallel workers. Each range is encoded
+// on its own and stitched afterwards, so boundaries must land where both tracks can
+// be cut cleanly: on a frame and on an audio packet boundary.
+
+// Ranges shorter than this are not worth a worker
+const MIN_RANGE_SECONDS = 10;
+// Frames simulated between yields to the UI
+const SIMULATION_FRAMES_PER_YIELD = 1000;
+// Timeline time between the snapshots a simulation keeps, and how many timelines keep them
+const SCENE_CHECKPOINT_SECONDS = 30;
+const MAX_CHECKPOINT_TIMELINES = 4;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+// Smallest frame count whose duration is a whole number of audio packets
+const getBoundaryStep = (sampleRate: number, fps: number, audioFrameSamples: number) => {
+  const samplesPerStep = fps * audioFrameSamples; // n frames = n * sampleRate / fps samples
+  return samplesPerStep / gcd(sampleRate, samplesPerStep);
+};
+
+// Frames shown before the timeline ends
+export const getTotalFrames = (totalSamples: number, sampleRate: number, fps: number) => {
+  let frames = Math.ceil(totalSamples * fps / sampleRate);
+  while (frames > 0 && getFrameSample(frames - 1, sampleRate, fps) >= totalSamples) frames--;
+  return frames;
+};
+
+// Up to `count` ranges of roughly equal length; the last one runs to the end of the timeline
+export const planRenderRanges = (totalSamples: number, sampleRate: number, fps: number, audioFrameSamples: number, count: number): TimelineRange[] => {
+  const totalFrames = getTotalFrames(totalSamples, sampleRate, fps);
+  const step = getBoundaryStep(sampleRate, fps, audioFrameSamples);
+  const minFrames = Math.max(step, MIN_RANGE_SECONDS * fps);
+
+  const boundaries = [0];
+  for (let i = 1; i < count; i++) {
+    const frame = Math.round((totalFrames * i) / count / step) * step;
+    if (frame - boundaries[boundaries.length - 1] >= minFrames && totalFrames - frame >= minFrames) boundaries.push(frame);
+  }
+
+  return boundaries.map((startFrame, i) => {
+    const endFrame = boundaries[i + 1] ?? Infinity;
+    return {
+      startFrame,
+      endFrame,
+      startSample: getFrameSample(startFrame, sampleRate, fps),
+      endSample: endFrame === Infinity ? Infinity : getFrameSample(endFrame, sampleRate, fps),
+    };
+  });
+};
+
+// State of a simulation before a frame: the scene, and where the timeline was
+interface SceneCheckpoint {
+  track: number;
+  trackStart: number;
+  snapshot: SceneSnapshot;
+}
+
+// Checkpoints by timeline (see getTimelineKey) and frame, least recently used timeline first
+const sceneCheckpoints = new Map<string, Map<number, SceneCheckpoint>>();
+
+// Identity of each playlist file, for the timeline key
+const fileIds = new WeakMap<File, number>();
+let nextFileId = 0;
+
+const getFileId = (file: File) => {
+  let id = fileIds.get(file);
+  if (id === undefined) fileIds.set(file, id = nextFileId++);
+  return id;
+};
+
+// Everything the simulation depends on. Images don't move anything, and outputs with the
+// same aspect ratio share a logical size (see createScene) and so an animation.
+const getTimelineKey = (settings: VisualSettings, scene: Scene, files: File[], sampleRate: number, fps: number) =>
+  JSON.stringify(
+    { settings, width: scene.width, height: scene.height, files: files.map(getFileId), sampleRate, fps },
+    (_, value) => (value instanceof Blob ? null : value)
+  );
+
+const getTimelineCheckpoints = (key: string) => {
+  const checkpoints = sceneCheckpoints.get(key) ?? new Map<number, SceneCheckpoint>();
+  sceneCheckpoints.delete(key);
+  sceneCheckpoints.set(key, checkpoints);
+  for (const oldest of sceneCheckpoints.keys()) {
+    if (sceneCheckpoints.size <= MAX_CHECKPOINT_TIMELINES) break;
+    sceneCheckpoints.delete(oldest);
+  }
+  return checkpoints;
+};
+
+// Runs the animation without drawing and captures the state before a given frame.
+// The simulation is seeded and fed the same cached spectra as the render, so the worker
+// rendering the previous range reaches exactly the same state (particles, bar dynamics)
+// at the boundary. It keeps a snapshot every SCENE_CHECKPOINT_SECONDS and starts from
+// the nearest one any simulation of the same timeline kept, so a seek or a later range
+// doesn't replay the timeline from its start. Frames must be requested in order.
+export const createSceneSimulation = (settings: VisualSettings, width: number, height: number, files: File[], sampleRate: number, fps: number, signal?: AbortSignal) => {
+  const scene = createScene(settings, width, height);
+  const params = getSpectrumCacheParams(settings, sampleRate, fps);
+  const channels = getSpectrumChannels(settings);
+  const levels = new Float32Array(settings.fftSize / 2);
+  const bands = channels.map(() => new Float32Array(settings.frequencyRange));
+  const key = getTimelineKey(settings, scene, files, sampleRate, fps);
+  const checkpointFrames = Math.max(1, Math.round(SCENE_CHECKPOINT_SECONDS * fps));
+  let frame = 0;
+  let track = 0;
+  let trackStart = 0; // timeline sample of the current track's first sample
+  let spectrum: TrackSpectrum | null = null;
+
+  return async (startFrame: number): Promise<SceneSnapshot> => {
+    signal?.throwIfAborted();
+    const checkpoints = getTimelineCheckpoints(key);
+    let nearest = frame;
+    for (const checkpointFrame of checkpoints.keys()) {
+      if (checkpointFrame > nearest && checkpointFrame <= startFrame) nearest = checkpointFrame;
+    }
+    if (nearest > frame) {
+      const checkpoint = checkpoints.get(nearest)!;
+      restoreScene(scene, checkpoint.snapshot);
+      ({ track, trackStart } = checkpoint);
+      spectrum = null;
+      frame = nearest;
+    }
+
+    for (; frame < startFrame; frame++) {
+      if (frame > 0 && frame % checkpointFrames === 0 && !checkpoints.has(frame)) {
+        checkpoints.set(frame, { track, trackStart, snapshot: snapshotScene(scene) });
+      }
+      const sample = getFrameSample(frame, sampleRate, fps);
+      while (track < files.length) {
+        spectrum ??= await getTrackSpectrum(files[track], params);
+        if (sample < trackStart + spectrum.length) break;
+        trackStart += spectrum.length;
+        track++;
+        spectrum = null;
+      }
+      const trackSpectrum = spectrum;
+      if (trackSpectrum) await loadSpectrumAt(trackSpectrum, sample - trackStart);
+      const frameBands = trackSpectrum && channels.map((channel, i) => mapFrequencyBands(
+        getSpectrumLevels(trackSpectrum, sample - trackStart, settings, levels, channel), sampleRate, settings, bands[i]
+      ));
+      advanceScene(scene, 1000 / fps, frameBands);
+      if (frame % SIMULATION_FRAMES_PER_YIELD === SIMULATION_FRAMES_PER_YIELD - 1) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        signal?.throwIfAborted();
+      }
+    }
+    return snapshotScene(scene);
+  };
+};
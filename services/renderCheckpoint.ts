@@ -0,0 +1,68 @@
+import { AudioTrack } from '../types';
+import { RenderJobConfig, RenderOutputTarget, RenderProgress, EncoderChoice } from './renderProtocol';
+import { TimelineRange } from './timelineRender';
+import { withStore } from './database';
+
+// Resumable renders write a fragmented MP4 to an OPFS work file (writes there
+// survive a crash or a closed tab) and keep their checkpoint in IndexedDB: the
+// job record once at start, the progress record after every fragment.
+
+const STORE = 'renderCheckpoint';
+
+// Identifies the audio files without storing them; they are picked again after a reload
+export interface PlaylistEntry {
+  name: string;
+  size: number;
+  lastModified: number;
+}
+
+export interface RenderPlan {
+  job: RenderJobConfig; // output is the OPFS work file for resumable renders
+  destination: RenderOutputTarget; // a picked file, otherwise the result is downloaded
+  fileName: string;
+  mimeType: string;
+  playlist: PlaylistEntry[];
+  loopCount: number;
+  totalDuration: number;
+  workerCount: number; // parallel workers; resumable renders always use one
+  range?: TimelineRange; // only this span of the timeline, as a preview clip
+}
+
+export interface RenderCheckpoint extends RenderPlan {
+  encoder: EncoderChoice;
+  progress: RenderProgress | null;
+  trackSamples: number[]; // decoded length of each timeline track reached so far
+}
+
+export const getPlaylistEntries = (playlist: AudioTrack[]): PlaylistEntry[] => {
+  return playlist.map(({ file }) => ({ name: file.name, size: file.size, lastModified: file.lastModified }));
+};
+
+export const matchesPlaylist = (checkpoint: RenderPlan, playlist: AudioTrack[]) => {
+  const current = getPlaylistEntries(playlist);
+  return current.length === checkpoint.playlist.length && current.every((entry, i) => {
+    const saved = checkpoint.playlist[i];
+    return entry.name === saved.name && entry.size === saved.size && entry.lastModified === saved.lastModified;
+  });
+};
+
+export const loadRenderCheckpoint = async (): Promise<RenderCheckpoint | null> => {
+  const job = await withStore<Omit<RenderCheckpoint, 'progress' | 'trackSamples'> | undefined>(STORE, 'readonly', store => store.get('job'));
+  if (!job) return null;
+  const saved = await withStore<Pick<RenderCheckpoint, 'progress' | 'trackSamples'> | undefined>(STORE, 'readonly', store => store.get('progress'));
+  return { ...job, progress: saved?.progress ?? null, trackSamples: saved?.trackSamples ?? [] };
+};
+
+// Replaces any previous checkpoint; progress starts empty
+export const saveRenderJob = async (plan: RenderPlan, encoder: EncoderChoice) => {
+  await withStore(STORE, 'readwrite', store => store.delete('progress'));
+  await withStore(STORE, 'readwrite', store => store.put({ ...plan, encoder }, 'job'));
+};
+
+export const saveRenderProgress = async (progress: RenderProgress, trackSamples: number[]) => {
+  await withStore(STORE, 'readwrite', store => store.put({ progress, trackSamples }, 'progress'));
+};
+
+export const clearRenderCheckpoint = async () => {
+  await withStore(STORE, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { createRenderControl, isAbortError } from './renderControl';
+
+// Resolves to whether the promise settled within a few turns of the event loop
+const settles = async (promise: Promise<unknown>) => {
+  let settled = false;
+  promise.then(() => { settled = true; }, () => { settled = true; });
+  await new Promise(resolve => setTimeout(resolve, 0));
+  return settled;
+};
+
+describe('createRenderControl', () => {
+  it('holds checkpoints while paused and releases them on resume', async () => {
+    const control = createRenderControl();
+    await control.checkpoint();
+    control.pause();
+    expect(control.isPaused()).toBe(true);
+    const waiting = control.checkpoint();
+    expect(await settles(waiting)).toBe(false);
+    control.resume();
+    expect(control.isPaused()).toBe(false);
+    expect(await settles(waiting)).toBe(true);
+  });
+
+  it('fails checkpoints with an AbortError once cancelled, even while paused', async () => {
+    const control = createRenderControl();
+    control.pause();
+    const waiting = control.checkpoint();
+    control.cancel();
+    expect(control.signal.aborted).toBe(true);
+    await expect(waiting.catch(e => isAbortError(e))).resolves.toBe(true);
+    await expect(control.checkpoint().catch(e => isAbortError(e))).resolves.toBe(true);
+    // A cancelled render cannot be paused again
+    control.pause();
+    expect(control.isPaused()).toBe(false);
+  });
+});
+
+describe('isAbortError', () => {
+  it('tells cancellation from failures', () => {
+    expect(isAbortError(new DOMException("Aborted", 'AbortError'))).toBe(true);
+    expect(isAbortError(new Error("Encoder failed"))).toBe(false);
+    expect(isAbortError(new DOMException("Quota", 'QuotaExceededError'))).toBe(false);
+  });
+});
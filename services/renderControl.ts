@@ -0,0 +1,44 @@
+// Cancellation and pause/resume for a running render. The render loop calls
+// checkpoint() between units of work; cancel() makes it throw an AbortError.
+
+export interface RenderControl {
+  signal: AbortSignal;
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  checkpoint: () => Promise<void>;
+}
+
+export const isAbortError = (e: unknown): boolean => e instanceof DOMException && e.name === 'AbortError';
+
+export const createRenderControl = (): RenderControl => {
+  const controller = new AbortController();
+  let resumeGate: { promise: Promise<void>; release: () => void } | null = null;
+
+  const resume = () => {
+    resumeGate?.release();
+    resumeGate = null;
+  };
+
+  // Wake a paused loop so it can observe the abort
+  controller.signal.addEventListener('abort', resume);
+
+  return {
+    signal: controller.signal,
+    cancel: () => controller.abort(),
+    pause: () => {
+      if (resumeGate || controller.signal.aborted) return;
+      let release = () => {};
+      const promise = new Promise<void>(resolve => { release = resolve; });
+      resumeGate = { promise, release };
+    },
+    resume,
+    isPaused: () => resumeGate !== null,
+    checkpoint: async () => {
+      controller.signal.throwIfAborted();
+      while (resumeGate) await resumeGate.promise;
+      controller.signal.throwIfAborted();
+    },
+  };
+};
@@ -0,0 +1,163 @@
+import { RenderOutputTarget } from './renderProtocol';
+import { Mp4Segment, stitchFragmentedMp4 } from './fragmentedMp4';
+import { downloadBlob } from '../utils';
+
+// Without a file picker, renders estimated below this size are kept in memory;
+// larger ones go to a scratch file in the Origin Private File System.
+export const MEMORY_OUTPUT_MAX_BYTES = 256 * 1024 * 1024;
+const OPFS_SCRATCH_NAME = 'spectrum-studio-render';
+const OPFS_WORK_FILE_NAME = 'spectrum-studio-resumable';
+const OPFS_SEGMENT_NAME = 'spectrum-studio-part';
+
+export const supportsSaveFilePicker = () => 'showSaveFilePicker' in window;
+
+export const supportsOpfs = () => !!navigator.storage && 'getDirectory' in navigator.storage;
+
+export const estimateOutputBytes = (videoBitrate: number, audioBitrate: number, durationSeconds: number) => {
+  return ((videoBitrate + audioBitrate) * durationSeconds) / 8;
+};
+
+// Memory for short videos, OPFS for long ones, memory again as a last resort. Each render
+// gets its own scratch file, so the next one never writes over a file still downloading.
+export const pickFallbackOutput = (estimatedBytes: number, extension: string): RenderOutputTarget => {
+  if (estimatedBytes > MEMORY_OUTPUT_MAX_BYTES && supportsOpfs()) {
+    return { type: 'opfs', fileName: `${OPFS_SCRATCH_NAME}-${Date.now()}${extension}` };
+  }
+  return { type: 'memory' };
+};
+
+// Resumable renders always write here, whatever the final destination; a file of their own,
+// as a finished one may still be downloading when the next starts
+export const getWorkFileTarget = (extension: string): RenderOutputTarget => {
+  return { type: 'opfs', fileName: `${OPFS_WORK_FILE_NAME}-${Date.now()}${extension}` };
+};
+
+// Each range of a parallel render writes its own scratch file until it is stitched
+export const getSegmentTarget = (index: number, extension: string): RenderOutputTarget => {
+  return supportsOpfs() ? { type: 'opfs', fileName: `${OPFS_SEGMENT_NAME}-${index}${extension}` } : { type: 'memory' };
+};
+
+// File System Access permissions lapse on reload and need a user gesture to renew
+export const requestWritePermission = async (fileHandle: FileSystemFileHandle) => {
+  const handle = fileHandle as FileSystemFileHandle & {
+    requestPermission?: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+  };
+  if (!handle.requestPermission) return true;
+  try {
+    return (await handle.requestPermission({ mode: 'readwrite' })) === 'granted';
+  } catch (e) {
+    return false;
+  }
+};
+
+const getOpfsFile = async (fileName: string) => {
+  const root = await navigator.storage.getDirectory();
+  return (await root.getFileHandle(fileName)).getFile();
+};
+
+// Downloads an OPFS file. It is kept afterwards: nothing tells when the browser has finished
+// reading it, so it goes with the next page load or when the user discards it (see removeRenderFiles).
+const downloadOpfsFile = async (fileName: string, downloadName: string, mimeType: string) => {
+  const file = await getOpfsFile(fileName);
+  downloadBlob(new Blob([file], { type: mimeType }), downloadName);
+};
+
+// Copies a finished work file into the picked file and removes it, or downloads it (the
+// file then stays until removeRenderFiles, like any downloaded output)
+export const deliverWorkFile = async (fileName: string, destination: RenderOutputTarget, downloadName: string, mimeType: string) => {
+  if (destination.type === 'file') {
+    const file = await getOpfsFile(fileName);
+    await file.stream().pipeTo(await destination.fileHandle.createWritable());
+    await removeWorkFile(fileName);
+  } else {
+    await downloadOpfsFile(fileName, downloadName, mimeType);
+  }
+};
+
+// Downloads the complete fragments of an interrupted render; the file plays up to that point
+export const downloadPartialWorkFile = async (fileName: string, byteLength: number, downloadName: string, mimeType: string) => {
+  const file = await getOpfsFile(fileName);
+  downloadBlob(file.slice(0, byteLength, mimeType), downloadName);
+};
+
+// Removes the empty file the save picker created for a render that was abandoned
+export const removePickedFile = async (fileHandle: FileSystemFileHandle) => {
+  // FileSystemHandle.remove() is not available everywhere yet
+  const handle = fileHandle as FileSystemFileHandle & { remove?: () => Promise<void> };
+  await handle.remove?.().catch(e => console.warn("Could not remove output file", e));
+};
+
+export const removeWorkFile = async (fileName: string) => {
+  const root = await navigator.storage.getDirectory();
+  await root.removeEntry(fileName).catch(() => {}); // Already gone
+};
+
+const RENDER_FILE_PREFIXES = [OPFS_SCRATCH_NAME, OPFS_WORK_FILE_NAME, OPFS_SEGMENT_NAME];
+
+const listRenderFiles = async () => {
+  // Directory iteration is not in the DOM typings yet
+  const root = await navigator.storage.getDirectory() as FileSystemDirectoryHandle & { values: () => AsyncIterable<FileSystemHandle> };
+  const files: File[] = [];
+  for await (const handle of root.values()) {
+    if (handle.kind === 'file' && RENDER_FILE_PREFIXES.some(prefix => handle.name.startsWith(prefix))) {
+      files.push(await (handle as FileSystemFileHandle).getFile());
+    }
+  }
+  return files;
+};
+
+// Bytes held by render files in OPFS: downloaded outputs and abandoned scratch files
+export const getRenderFilesSize = async () => {
+  if (!supportsOpfs()) return 0;
+  return (await listRenderFiles()).reduce((sum, file) => sum + file.size, 0);
+};
+
+// Removes every render file last written before `before` but `keep` (an interrupted render's work file)
+export const removeRenderFiles = async (keep: string[] = [], before = Infinity) => {
+  if (!supportsOpfs()) return;
+  for (const file of await listRenderFiles()) {
+    if (!keep.includes(file.name) && file.lastModified < before) await removeWorkFile(file.name);
+  }
+};
+
+let staleFilesRemoved: Promise<void> | null = null;
+
+// Render files earlier page loads left behind, removed once per load
+export const removeStaleRenderFiles = (keep: string[] = []) => {
+  staleFilesRemoved ??= removeRenderFiles(keep, performance.timeOrigin);
+  return staleFilesRemoved;
+};
+
+// Offers a regular download for outputs that were not written to a user-picked file
+export const saveRenderOutput = async (output: RenderOutputTarget, buffer: ArrayBuffer | null, filename: string, mimeType: string) => {
+  if (output.type === 'memory') {
+    if (!buffer) throw new Error("Render produced no data");
+    downloadBlob(new Blob([buffer], { type: mimeType }), filename);
+  } else if (output.type === 'opfs') {
+    await downloadOpfsFile(output.fileName, filename, mimeType);
+  }
+};
+
+export const readSegmentOutput = async (target: RenderOutputTarget, buffer: ArrayBuffer | null): Promise<Blob> => {
+  if (target.type === 'opfs') return getOpfsFile(target.fileName);
+  if (!buffer) throw new Error("Render produced no data");
+  return new Blob([buffer]);
+};
+
+// Stitches the ranges of a parallel render into the picked file, or downloads the result
+export const saveStitchedOutput = async (destination: RenderOutputTarget, segments: Mp4Segment[], filename: string, mimeType: string) => {
+  if (destination.type === 'file') {
+    const writable = await destination.fileHandle.createWritable();
+    try {
+      await stitchFragmentedMp4(segments, data => writable.write(data));
+    } catch (e) {
+      await writable.abort();
+      throw e;
+    }
+    await writable.close();
+  } else {
+    const parts: Uint8Array[] = [];
+    await stitchFragmentedMp4(segments, async data => { parts.push(data); });
+    downloadBlob(new Blob(parts, { type: mimeType }), filename);
+  }
+};
@@ -0,0 +1,110 @@
+import { VisualSettings, OutputFormat } from '../types';
+import { SceneSnapshot } from './scene';
+import { VideoCodecChoice, AudioCodecChoice, VideoEncodeOptions } from './codecs';
+
+// Messages exchanged between StudioPhase (via renderWorkerClient) and renderWorker
+
+// Where the muxer writes: a user-picked file (File System Access API), a scratch file
+// in the Origin Private File System, or memory. The last two are downloaded afterwards.
+export type RenderOutputTarget =
+  | { type: 'file'; fileHandle: FileSystemFileHandle }
+  | { type: 'opfs'; fileName: string }
+  | { type: 'memory' };
+
+export interface RenderJobConfig {
+  settings: VisualSettings;
+  format: OutputFormat;
+  width: number;
+  height: number;
+  fps: number;
+  videoBitrate: number;
+  videoOptions: VideoEncodeOptions;
+  keyframeInterval: number; // seconds
+  audioBitrate: number;
+  sampleRate: number;
+  numberOfChannels: number;
+  output: RenderOutputTarget;
+  resume?: RenderResumeState;
+  segment?: RenderSegment;
+}
+
+// Encoders picked when the render started; a resumed render must reuse them
+export interface EncoderChoice {
+  video: VideoCodecChoice;
+  audio: AudioCodecChoice;
+}
+
+// Where the next fragment starts, reported once the previous one is on disk
+export interface RenderProgress {
+  frameIndex: number; // first frame of the next fragment (always a keyframe)
+  audioSample: number; // first audio sample not yet written
+  byteOffset: number; // length of the file holding only complete fragments
+  fragmentCount: number;
+  scene: SceneSnapshot; // scene state before drawing frameIndex
+}
+
+export interface RenderResumeState {
+  progress: RenderProgress;
+  encoder: EncoderChoice;
+}
+
+// A time range rendered on its own: a preview clip, or one range of a parallel render
+// whose fragmented MP4 is stitched after the previous ranges. It starts from the scene
+// state at its first frame and, for later parallel ranges, from the encoders the first
+// range picked.
+export interface RenderSegment {
+  startFrame: number;
+  scene: SceneSnapshot | null; // null until the render simulates it (a clip's, see runRender)
+  encoder: EncoderChoice | null;
+}
+
+// Fragmented MP4 written to OPFS: every fragment is durable, so the render can be resumed
+export const isResumableJob = (job: RenderJobConfig) => {
+  return job.output.type === 'opfs' && job.format.container === 'mp4' && job.format.fragmented && !job.segment;
+};
+
+export interface SpectrumFrame {
+  time: number; // seconds on the output timeline
+  data: Float32Array[]; // levels per FFT bin for each channel the look draws, see getSpectrumChannels
+  waveform: Float32Array[] | null; // [left, right] before the frame, for time-domain styles (see waveform)
+}
+
+export interface AudioChunk {
+  timestamp: number; // microseconds
+  numberOfFrames: number;
+  numberOfChannels: number;
+  data: Float32Array; // f32-planar
+}
+
+// Encoder output so far; a resumed render also counts what was written before the checkpoint
+export interface RenderStats {
+  framesEncoded: number;
+  outputBytes: number;
+}
+
+export type RenderWorkerCommand =
+  | { type: 'start'; job: RenderJobConfig }
+  | { type: 'frames'; frames: SpectrumFrame[] }
+  | { type: 'audio'; chunk: AudioChunk }
+  | { type: 'cover'; image: Blob | null } // the disc picture from here on, see coverArt
+  | { type: 'finish' }
+  | { type: 'cancel'; deleteFile: boolean };
+
+export interface RenderWorkerRequest {
+  id: number;
+  command: RenderWorkerCommand;
+}
+
+export type RenderWorkerResponse =
+  | { type: 'ack'; id: number; codec?: string; encoder?: EncoderChoice; stats?: RenderStats; buffer?: ArrayBuffer }
+  | { type: 'error'; id: number | null; message: string }
+  | { type: 'thumbnail'; bitmap: ImageBitmap }
+  | { type: 'checkpoint'; progress: RenderProgress };
+
+const THUMBNAIL_BOX = { width: 320, height: 180 };
+
+// Live thumbnail size: the output frame fitted into a 320x180 box
+export const getThumbnailSize = (width: number, height: number) => {
+  const scale = Math.min(THUMBNAIL_BOX.width / width, THUMBNAIL_BOX.height / height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
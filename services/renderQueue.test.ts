@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { createQueuedRender, summarizeQueue, QueueJobStatus } from './renderQueue';
+import { RenderPlan } from './renderCheckpoint';
+
+const createJob = (fileName: string, status: QueueJobStatus, error: string | null = null) =>
+  ({ ...createQueuedRender({ fileName } as RenderPlan, []), status, error });
+
+describe('createQueuedRender', () => {
+  it('waits with no attempts yet, under its own id', () => {
+    const plan = { fileName: 'a.mp4' } as RenderPlan;
+    const job = createQueuedRender(plan, []);
+    expect(job).toMatchObject({ plan, status: 'pending', attempts: 0, error: null, startedAt: null });
+    expect(createQueuedRender(plan, []).id).not.toBe(job.id);
+  });
+});
+
+describe('summarizeQueue', () => {
+  it('counts jobs by status and lists why each failure failed', () => {
+    const summary = summarizeQueue([
+      createJob('a.mp4', 'done'),
+      createJob('b.mp4', 'failed', "Encoder error"),
+      createJob('c.mp4', 'cancelled'),
+      createJob('d.mp4', 'done'),
+      createJob('e.mp4', 'failed'),
+      createJob('f.mp4', 'pending'),
+    ], 90000);
+    expect(summary).toEqual({
+      done: 2,
+      failed: 2,
+      cancelled: 1,
+      pending: 1,
+      elapsedMs: 90000,
+      failures: [{ fileName: 'b.mp4', error: "Encoder error" }, { fileName: 'e.mp4', error: '' }],
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { AudioTrack } from '../types';
+import { RenderPlan } from './renderCheckpoint';
+
+// Batch rendering: jobs are captured with everything they need (playlist, look,
+// encoding settings, output) and run one after another without prompts.
+
+// Attempts per job before it is marked failed
+export const MAX_QUEUE_ATTEMPTS = 2;
+
+export type QueueJobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type RenderOutcome =
+  | { status: 'done'; codec: string }
+  | { status: 'cancelled' }
+  | { status: 'failed'; message: string };
+
+// A job's own look comes from its plan: prepareRenderPlan snapshots the VisualSettings
+// (job.settings), encoder settings and loop count when the job is enqueued, so later
+// edits in the studio don't change jobs already waiting
+export interface QueuedRender {
+  id: string;
+  plan: RenderPlan;
+  tracks: AudioTrack[];
+  status: QueueJobStatus;
+  attempts: number;
+  error: string | null;
+  codec: string | null;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export interface RenderQueueSummary {
+  done: number;
+  failed: number;
+  cancelled: number;
+  pending: number;
+  elapsedMs: number;
+  failures: Array<{ fileName: string; error: string }>;
+}
+
+export const createQueuedRender = (plan: RenderPlan, tracks: AudioTrack[]): QueuedRender => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  plan,
+  tracks,
+  status: 'pending',
+  attempts: 0,
+  error: null,
+  codec: null,
+  startedAt: null,
+  finishedAt: null,
+});
+
+export const summarizeQueue = (queue: QueuedRender[], elapsedMs: number): RenderQueueSummary => {
+  const count = (status: QueueJobStatus) => queue.filter(job => job.status === status).length;
+  return {
+    done: count('done'),
+    failed: count('failed'),
+    cancelled: count('cancelled'),
+    pending: count('pending'),
+    elapsedMs,
+    failures: queue
+      .filter(job => job.status === 'failed')
+      .map(job => ({ fileName: job.plan.fileName, error: job.error || '' })),
+  };
+};
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRenderStatsTracker } from './renderStats';
+
+// 60 s at 30 fps and 48 kHz
+const FRAMES = 1800;
+const SAMPLES = 60 * 48000;
+
+let now = 0;
+
+beforeEach(() => {
+  now = 0;
+  vi.spyOn(performance, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createRenderStatsTracker', () => {
+  it('weights video, audio and finishing into one progress', () => {
+    const tracker = createRenderStatsTracker(FRAMES, SAMPLES, 30);
+    tracker.update(FRAMES / 2, SAMPLES / 2, 1000);
+    expect(tracker.getStats().progress).toBeCloseTo(47.5);
+    tracker.startFinishing();
+    expect(tracker.getStats().progress).toBeCloseTo(95);
+    tracker.finish();
+    expect(tracker.getStats().progress).toBe(100);
+    expect(tracker.getStats().outputBytes).toBe(1000);
+  });
+
+  it('rates the recent speed and extrapolates the remaining time', () => {
+    const tracker = createRenderStatsTracker(FRAMES, SAMPLES, 30);
+    expect(tracker.getStats().etaMs).toBeNull();
+    tracker.update(0, 0, 0);
+    now = 1000;
+    tracker.update(60, 96000, 0);
+    const stats = tracker.getStats();
+    expect(stats.fps).toBe(60);
+    expect(stats.realtime).toBe(2);
+    // 95% of the bar every 30 s, finishing extrapolated at the same rate
+    expect(stats.etaMs).toBeCloseTo((30 / 0.95 - 1) * 1000);
+  });
+
+  it('leaves pauses out of the elapsed time and the rates', () => {
+    const tracker = createRenderStatsTracker(FRAMES, SAMPLES, 30);
+    tracker.update(0, 0, 0);
+    now = 1000;
+    tracker.update(30, 48000, 0);
+    tracker.pause();
+    now = 61000;
+    expect(tracker.getStats().elapsedMs).toBe(1000);
+    tracker.resume();
+    expect(tracker.getStats().etaMs).toBeNull();
+    now = 62000;
+    tracker.update(90, 144000, 0);
+    now = 63000;
+    tracker.update(150, 240000, 0);
+    expect(tracker.getStats().elapsedMs).toBe(3000);
+    expect(tracker.getStats().fps).toBe(60);
+  });
+});
@@ -0,0 +1,98 @@
+// Throughput, ETA and overall progress for the render overlay. Rates come from a
+// sliding window so they follow the current speed rather than the lifetime average.
+
+const RATE_WINDOW_MS = 5000;
+
+// Share of the progress bar per phase. Video and audio are encoded interleaved;
+// finishing covers the encoder flush, muxer finalization and saving the file.
+const PHASE_WEIGHTS = { video: 0.85, audio: 0.1, finish: 0.05 };
+
+export interface RenderThroughput {
+  progress: number; // 0-100
+  elapsedMs: number; // excluding pauses
+  etaMs: number | null; // null until there is a rate to extrapolate
+  fps: number;
+  realtime: number; // seconds of output per second of rendering
+  outputBytes: number;
+}
+
+export interface RenderStatsTracker {
+  update: (framesEncoded: number, audioSamples: number, outputBytes: number) => void;
+  startFinishing: () => void;
+  finish: () => void;
+  pause: () => void;
+  resume: () => void;
+  getStats: () => RenderThroughput;
+}
+
+interface RateSample {
+  time: number;
+  frames: number;
+  progress: number;
+}
+
+export const createRenderStatsTracker = (totalFrames: number, totalSamples: number, fps: number): RenderStatsTracker => {
+  const startedAt = performance.now();
+  let pausedAt: number | null = null;
+  let pausedMs = 0;
+  let frames = 0;
+  let samples = 0;
+  let bytes = 0;
+  let phase: 'encode' | 'finish' | 'done' = 'encode';
+  let recent: RateSample[] = [];
+
+  const activeTime = (now: number) => now - startedAt - pausedMs - (pausedAt !== null ? now - pausedAt : 0);
+
+  const getProgress = () => {
+    if (phase === 'done') return 1;
+    const encoded = PHASE_WEIGHTS.video * Math.min(1, frames / totalFrames)
+      + PHASE_WEIGHTS.audio * Math.min(1, samples / totalSamples);
+    return phase === 'finish' ? PHASE_WEIGHTS.video + PHASE_WEIGHTS.audio : encoded;
+  };
+
+  return {
+    update: (framesEncoded, audioSamples, outputBytes) => {
+      frames = framesEncoded;
+      samples = audioSamples;
+      bytes = outputBytes;
+      const time = activeTime(performance.now());
+      recent.push({ time, frames, progress: getProgress() });
+      while (recent.length > 2 && time - recent[0].time > RATE_WINDOW_MS) recent.shift();
+    },
+    startFinishing: () => { phase = 'finish'; },
+    finish: () => { phase = 'done'; },
+    pause: () => {
+      if (pausedAt === null) pausedAt = performance.now();
+    },
+    resume: () => {
+      if (pausedAt === null) return;
+      pausedMs += performance.now() - pausedAt;
+      pausedAt = null;
+      recent = []; // Rates before the pause no longer describe the current speed
+    },
+    getStats: () => {
+      const progress = getProgress();
+      const elapsedMs = activeTime(performance.now());
+      const first = recent[0];
+      const last = recent[recent.length - 1];
+      const spanMs = first && last ? last.time - first.time : 0;
+
+      let renderFps = 0;
+      let etaMs: number | null = null;
+      if (spanMs > 0) {
+        renderFps = ((last.frames - first.frames) * 1000) / spanMs;
+        const progressRate = (last.progress - first.progress) / spanMs;
+        if (phase === 'encode' && progressRate > 0) etaMs = (1 - progress) / progressRate;
+      }
+
+      return {
+        progress: progress * 100,
+        elapsedMs,
+        etaMs,
+        fps: renderFps,
+        realtime: renderFps / fps,
+        outputBytes: bytes,
+      };
+    },
+  };
+};
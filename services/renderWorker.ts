@@ -0,0 +1,354 @@
+import { Muxer as Mp4Muxer, FileSystemWritableFileStreamTarget as Mp4FileTarget, StreamTarget as Mp4StreamTarget, ArrayBufferTarget as Mp4BufferTarget } from 'mp4-muxer';
+import { Muxer as WebmMuxer, FileSystemWritableFileStreamTarget as WebmFileTarget, StreamTarget as WebmStreamTarget, ArrayBufferTarget as WebmBufferTarget } from 'webm-muxer';
+import { Scene, SceneContext, SceneSnapshot, createScene, advanceScene, drawScene, loadSceneImage, snapshotScene, restoreScene } from './scene';
+import { selectVideoCodec, selectAudioCodec, getFrameEncodeOptions, VideoCodecChoice, AudioCodecChoice } from './codecs';
+import { RenderJobConfig, RenderOutputTarget, RenderWorkerCommand, RenderWorkerRequest, RenderWorkerResponse, SpectrumFrame, AudioChunk, EncoderChoice, RenderStats, getThumbnailSize, isResumableJob } from './renderProtocol';
+import { createFragmentWriter, FragmentProgress } from './fragmentedMp4';
+import { mapFrequencyBands } from './frequencyBands';
+
+// Offline renderer: draws the scene on an OffscreenCanvas and runs the
+// VideoEncoder/AudioEncoder/Muxer chain off the UI thread.
+
+const THUMBNAIL_INTERVAL_MS = 1000;
+
+// Encoder queue depth at which submitting more work waits for the encoder to catch up
+const MAX_VIDEO_QUEUE = 8;
+const MAX_AUDIO_QUEUE = 16;
+
+const WEBM_CODEC_IDS = { vp9: 'V_VP9', av1: 'V_AV1', opus: 'A_OPUS' } as const;
+
+type OutputMuxer = Mp4Muxer<Mp4FileTarget | Mp4StreamTarget | Mp4BufferTarget> | WebmMuxer<WebmFileTarget | WebmStreamTarget | WebmBufferTarget>;
+
+// Worker-only OPFS API, missing from the DOM lib typings
+interface SyncAccessHandle {
+  write: (buffer: BufferSource, options?: { at?: number }) => number;
+  truncate: (size: number) => void;
+  flush: () => void;
+  close: () => void;
+}
+
+// Output destination, opened before the muxer is created
+type OpenedOutput =
+  | { type: 'file'; writable: FileSystemWritableFileStream }
+  | { type: 'opfs'; handle: SyncAccessHandle }
+  | { type: 'memory' };
+
+interface RenderSession {
+  job: RenderJobConfig;
+  canvas: OffscreenCanvas;
+  ctx: SceneContext;
+  scene: Scene;
+  bands: Float32Array[]; // spectrum bars of the frame being drawn, per channel
+  output: OpenedOutput;
+  muxer: OutputMuxer;
+  videoCodec: VideoCodecChoice;
+  videoEncoder: VideoEncoder;
+  audioEncoder: AudioEncoder;
+  firstFrame: number; // output frame index of the first frame this session encodes
+  framesEncoded: number;
+  stats: RenderStats;
+  lastThumbnailAt: number;
+  // Scene state at each keyframe not yet covered by a checkpoint (resumable renders only)
+  keyframeSnapshots: Map<number, SceneSnapshot> | null;
+}
+
+let session: RenderSession | null = null;
+
+const post = (message: RenderWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const reportError = (e: unknown) => {
+  post({ type: 'error', id: null, message: e instanceof Error ? e.message : String(e) });
+};
+
+const requireSession = (): RenderSession => {
+  if (!session) throw new Error("Render session not started");
+  return session;
+};
+
+const openOutput = async (target: RenderOutputTarget, keepBytes: number): Promise<OpenedOutput> => {
+  if (target.type === 'file') {
+    return { type: 'file', writable: await target.fileHandle.createWritable() };
+  }
+  if (target.type === 'opfs') {
+    const root = await navigator.storage.getDirectory();
+    const fileHandle = await root.getFileHandle(target.fileName, { create: true });
+    const handle: SyncAccessHandle = await (fileHandle as unknown as { createSyncAccessHandle: () => Promise<SyncAccessHandle> }).createSyncAccessHandle();
+    handle.truncate(keepBytes); // Scratch file is reused between renders; a resume keeps the complete fragments
+    return { type: 'opfs', handle };
+  }
+  return { type: 'memory' };
+};
+
+// Finishes writing and returns the file contents for in-memory outputs
+const closeOutput = async (output: OpenedOutput, muxer: OutputMuxer): Promise<ArrayBuffer | undefined> => {
+  if (output.type === 'file') {
+    await output.writable.close();
+  } else if (output.type === 'opfs') {
+    output.handle.flush();
+    output.handle.close();
+  } else if (muxer.target instanceof Mp4BufferTarget || muxer.target instanceof WebmBufferTarget) {
+    return muxer.target.buffer;
+  }
+  return undefined;
+};
+
+const createMuxer = (job: RenderJobConfig, output: OpenedOutput, video: VideoCodecChoice, audio: AudioCodecChoice, onFragment: (progress: FragmentProgress) => void): OutputMuxer => {
+  const { width, height, fps, sampleRate, numberOfChannels } = job;
+  const writeAt = output.type === 'opfs' && isResumableJob(job)
+    ? createFragmentWriter(output.handle, job.resume?.progress, onFragment)
+    : (data: Uint8Array, position: number) => {
+      if (output.type === 'opfs') output.handle.write(data, { at: position });
+    };
+
+  if (job.format.container === 'webm') {
+    if (video.codec !== 'vp9' && video.codec !== 'av1') throw new Error(`${video.label} cannot be stored in WebM`);
+    if (audio.codec !== 'opus') throw new Error(`${audio.label} cannot be stored in WebM`);
+    return new WebmMuxer({
+      target: output.type === 'file' ? new WebmFileTarget(output.writable)
+        : output.type === 'opfs' ? new WebmStreamTarget({ onData: writeAt })
+        : new WebmBufferTarget(),
+      video: { codec: WEBM_CODEC_IDS[video.codec], width, height, frameRate: fps },
+      audio: { codec: WEBM_CODEC_IDS[audio.codec], numberOfChannels, sampleRate },
+      firstTimestampBehavior: 'offset',
+    });
+  }
+
+  return new Mp4Muxer({
+    target: output.type === 'file' ? new Mp4FileTarget(output.writable)
+      : output.type === 'opfs' ? new Mp4StreamTarget({ onData: writeAt })
+      : new Mp4BufferTarget(),
+    video: { codec: video.codec, width, height, frameRate: fps },
+    audio: { codec: audio.codec, numberOfChannels, sampleRate },
+    fastStart: job.format.fragmented ? 'fragmented' : false,
+    firstTimestampBehavior: 'offset',
+  });
+};
+
+// A resumed render or a later parallel range reuses the given encoders so its
+// fragments match the header they are appended to
+const selectEncoders = async (job: RenderJobConfig): Promise<EncoderChoice> => {
+  const { format, width, height, fps } = job;
+  const fixed = job.resume?.encoder ?? job.segment?.encoder;
+  if (fixed) {
+    const { video, audio } = fixed;
+    const [videoSupport, audioSupport] = await Promise.all([
+      VideoEncoder.isConfigSupported(video.config),
+      AudioEncoder.isConfigSupported(audio.config),
+    ]);
+    if (!videoSupport.supported || !audioSupport.supported) {
+      throw new Error(`${video.label} + ${audio.label} is no longer available${job.resume ? ', so the render cannot be resumed' : ''}`);
+    }
+    return fixed;
+  }
+  return {
+    video: await selectVideoCodec(format.videoCodec, format.container, width, height, fps, job.videoBitrate, job.videoOptions),
+    audio: await selectAudioCodec(format.audioCodec, format.container, job.sampleRate, job.numberOfChannels, job.audioBitrate),
+  };
+};
+
+// Pairs a completed fragment with the scene state at its end and reports it
+const reportFragment = (progress: FragmentProgress) => {
+  const snapshots = session?.keyframeSnapshots;
+  if (!snapshots) return;
+  const scene = snapshots.get(progress.frameIndex);
+  snapshots.forEach((_, frameIndex) => {
+    if (frameIndex <= progress.frameIndex) snapshots.delete(frameIndex);
+  });
+  // The final fragment ends after the last frame and needs no checkpoint
+  if (scene) post({ type: 'checkpoint', progress: { ...progress, scene } });
+};
+
+const startSession = async (job: RenderJobConfig): Promise<{ codec: string; encoder: EncoderChoice }> => {
+  const { width, height } = job;
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("OffscreenCanvas 2D context unavailable");
+
+  const scene = createScene(job.settings, width, height);
+  scene.background = await loadSceneImage(job.settings.backgroundImage);
+  scene.logo = await loadSceneImage(job.settings.logoImage);
+  const startScene = job.resume?.progress.scene ?? job.segment?.scene;
+  if (startScene) restoreScene(scene, startScene);
+
+  const encoder = await selectEncoders(job);
+  const { video: videoCodec, audio: audioCodec } = encoder;
+
+  const output = await openOutput(job.output, job.resume?.progress.byteOffset ?? 0);
+  const muxer = createMuxer(job, output, videoCodec, audioCodec, reportFragment);
+
+  const stats: RenderStats = {
+    framesEncoded: job.resume?.progress.frameIndex ?? 0,
+    outputBytes: job.resume?.progress.byteOffset ?? 0,
+  };
+
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => {
+      stats.framesEncoded++;
+      stats.outputBytes += chunk.byteLength;
+      muxer.addVideoChunk(chunk, meta);
+    },
+    error: (e) => {
+      console.error("Video Encode Error", e);
+      reportError(e);
+    }
+  });
+  videoEncoder.configure(videoCodec.config);
+
+  const audioEncoder = new AudioEncoder({
+    output: (chunk, meta) => {
+      stats.outputBytes += chunk.byteLength;
+      muxer.addAudioChunk(chunk, meta);
+    },
+    error: (e) => {
+      console.error("Audio Encode Error", e);
+      reportError(e);
+    }
+  });
+  audioEncoder.configure(audioCodec.config);
+
+  session = {
+    job, canvas, ctx, scene, output, muxer, videoCodec, videoEncoder, audioEncoder,
+    bands: [],
+    firstFrame: job.resume?.progress.frameIndex ?? job.segment?.startFrame ?? 0,
+    framesEncoded: job.resume?.progress.frameIndex ?? job.segment?.startFrame ?? 0,
+    stats,
+    lastThumbnailAt: 0,
+    keyframeSnapshots: isResumableJob(job) ? new Map() : null,
+  };
+  return { codec: `${videoCodec.label} + ${audioCodec.label}`, encoder };
+};
+
+const postThumbnail = (s: RenderSession) => {
+  const now = performance.now();
+  if (now - s.lastThumbnailAt < THUMBNAIL_INTERVAL_MS) return;
+  s.lastThumbnailAt = now;
+  const size = getThumbnailSize(s.job.width, s.job.height);
+  createImageBitmap(s.canvas, { resizeWidth: size.width, resizeHeight: size.height, resizeQuality: 'low' })
+    .then(bitmap => post({ type: 'thumbnail', bitmap }, [bitmap]))
+    .catch(() => {}); // Thumbnails are best-effort
+};
+
+// Backpressure: hold new work while the encoder queue is too deep. A closed encoder
+// resets its queue to zero, so this cannot wait forever after an encoder error.
+const waitForEncoder = async (encoder: VideoEncoder | AudioEncoder, maxQueueSize: number) => {
+  while (encoder.state === 'configured' && encoder.encodeQueueSize > maxQueueSize) {
+    await new Promise<void>(resolve => encoder.addEventListener('dequeue', () => resolve(), { once: true }));
+  }
+};
+
+const encodeFrames = async (frames: SpectrumFrame[]): Promise<RenderStats> => {
+  const s = requireSession();
+  const { fps } = s.job;
+  const frameDurationUs = 1000000 / fps;
+  const keyframeFrames = Math.max(1, Math.round(fps * s.job.keyframeInterval));
+
+  for (const frame of frames) {
+    // Each keyframe can start a fragment, so remember the scene state there. A session
+    // always opens with a keyframe, which closes the GOP at a parallel range boundary.
+    const keyFrame = s.framesEncoded === s.firstFrame || s.framesEncoded % keyframeFrames === 0;
+    if (keyFrame) s.keyframeSnapshots?.set(s.framesEncoded, snapshotScene(s.scene));
+
+    // Fixed timestep, so bar dynamics depend on the frame rate only
+    const bands = frame.data.map((levels, channel) =>
+      mapFrequencyBands(levels, s.job.sampleRate, s.job.settings, s.bands[channel] ??= new Float32Array(s.job.settings.frequencyRange))
+    );
+    advanceScene(s.scene, 1000 / fps, bands, frame.waveform);
+    drawScene(s.ctx, s.scene, frame.time * 1000);
+
+    await waitForEncoder(s.videoEncoder, MAX_VIDEO_QUEUE);
+    const videoFrame = new VideoFrame(s.canvas, { timestamp: Math.round(frame.time * 1000000), duration: Math.round(frameDurationUs) });
+    s.videoEncoder.encode(videoFrame, getFrameEncodeOptions(s.videoCodec.codec, s.job.videoOptions, keyFrame));
+    videoFrame.close();
+    s.framesEncoded++;
+  }
+  postThumbnail(s);
+  return { ...s.stats };
+};
+
+const encodeAudio = async (chunk: AudioChunk): Promise<RenderStats> => {
+  const s = requireSession();
+  await waitForEncoder(s.audioEncoder, MAX_AUDIO_QUEUE);
+  const audioData = new AudioData({
+    format: 'f32-planar',
+    sampleRate: s.job.sampleRate,
+    numberOfFrames: chunk.numberOfFrames,
+    numberOfChannels: chunk.numberOfChannels,
+    timestamp: chunk.timestamp,
+    data: chunk.data
+  });
+  s.audioEncoder.encode(audioData);
+  audioData.close();
+  return { ...s.stats };
+};
+
+const finishSession = async (): Promise<ArrayBuffer | undefined> => {
+  const s = requireSession();
+  await s.videoEncoder.flush();
+  await s.audioEncoder.flush();
+  s.muxer.finalize();
+  const buffer = await closeOutput(s.output, s.muxer);
+  s.videoEncoder.close();
+  s.audioEncoder.close();
+  session = null;
+  return buffer;
+};
+
+// Drops queued work and discards the output. Writable streams only commit on
+// close(), so aborting leaves no partial data behind; deleteFile also removes
+// the (empty) file the save picker created.
+const cancelSession = async (deleteFile: boolean) => {
+  if (!session) return;
+  const s = session;
+  session = null;
+  if (s.videoEncoder.state !== 'closed') s.videoEncoder.close();
+  if (s.audioEncoder.state !== 'closed') s.audioEncoder.close();
+
+  const { output, job } = s;
+  if (output.type === 'file') {
+    await output.writable.abort();
+    if (deleteFile && job.output.type === 'file') {
+      // FileSystemHandle.remove() is not available everywhere yet
+      const handle = job.output.fileHandle as FileSystemFileHandle & { remove?: () => Promise<void> };
+      await handle.remove?.();
+    }
+  } else if (output.type === 'opfs' && job.output.type === 'opfs') {
+    output.handle.close();
+    if (deleteFile) {
+      const root = await navigator.storage.getDirectory();
+      await root.removeEntry(job.output.fileName);
+    }
+  }
+};
+
+const setCover = async (image: Blob | null) => {
+  const s = requireSession();
+  s.scene.cover?.close();
+  s.scene.cover = await loadSceneImage(image);
+};
+
+type CommandResult = { codec?: string; encoder?: EncoderChoice; stats?: RenderStats; buffer?: ArrayBuffer };
+
+const handleCommand = async (command: RenderWorkerCommand): Promise<CommandResult> => {
+  switch (command.type) {
+    case 'start': return await startSession(command.job);
+    case 'frames': return { stats: await encodeFrames(command.frames) };
+    case 'audio': return { stats: await encodeAudio(command.chunk) };
+    case 'cover': await setCover(command.image); return {};
+    case 'finish': return { buffer: await finishSession() };
+    case 'cancel': await cancelSession(command.deleteFile); return {};
+  }
+};
+
+// Commands are handled strictly in arrival order
+let queue: Promise<void> = Promise.resolve();
+
+self.onmessage = (e: MessageEvent<RenderWorkerRequest>) => {
+  const { id, command } = e.data;
+  queue = queue
+    .then(() => handleCommand(command))
+    .then(result => post({ type: 'ack', id, ...result }, result.buffer ? [result.buffer] : []))
+    .catch(err => post({ type: 'error', id, message: err instanceof Error ? err.message : String(err) }));
+};
@@ -0,0 +1,78 @@
+import { RenderJobConfig, RenderWorkerCommand, RenderWorkerRequest, RenderWorkerResponse, SpectrumFrame, AudioChunk, EncoderChoice, RenderProgress, RenderStats } from './renderProtocol';
+
+export interface RenderWorkerClient {
+  start: (job: RenderJobConfig) => Promise<{ codec: string; encoder: EncoderChoice }>; // codec is a label for the selected encoders
+  renderFrames: (frames: SpectrumFrame[]) => Promise<RenderStats>;
+  encodeAudio: (chunk: AudioChunk) => Promise<RenderStats>;
+  setCover: (image: Blob | null) => Promise<void>;
+  finish: () => Promise<ArrayBuffer | null>; // resolves with the file for in-memory outputs
+  cancel: (deleteFile: boolean) => Promise<void>;
+  terminate: () => void;
+}
+
+type Ack = Extract<RenderWorkerResponse, { type: 'ack' }>;
+
+// Promise-based wrapper around renderWorker. Any encoder error fails every
+// pending and future request so the caller can unwind from a single catch.
+export const createRenderWorker = (
+  onThumbnail: (bitmap: ImageBitmap) => void,
+  onCheckpoint: (progress: RenderProgress) => void = () => {}
+): RenderWorkerClient => {
+  const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (ack: Ack) => void; reject: (e: Error) => void }>();
+  let nextId = 1;
+  let fatalError: Error | null = null;
+  let terminated = false;
+
+  const failAll = (error: Error) => {
+    fatalError = fatalError || error;
+    pending.forEach(p => p.reject(error));
+    pending.clear();
+  };
+
+  worker.onmessage = (e: MessageEvent<RenderWorkerResponse>) => {
+    const message = e.data;
+    if (message.type === 'thumbnail') {
+      onThumbnail(message.bitmap);
+    } else if (message.type === 'checkpoint') {
+      onCheckpoint(message.progress);
+    } else if (message.type === 'ack') {
+      pending.get(message.id)?.resolve(message);
+      pending.delete(message.id);
+    } else if (message.id !== null && pending.has(message.id)) {
+      pending.get(message.id)!.reject(new Error(message.message));
+      pending.delete(message.id);
+    } else {
+      failAll(new Error(message.message));
+    }
+  };
+  worker.onerror = (e) => failAll(new Error(e.message || "Render worker crashed"));
+
+  const request = (command: RenderWorkerCommand, transfer: Transferable[] = []) => {
+    // Cleanup must still reach the worker after an encoder error
+    if (terminated || (fatalError && command.type !== 'cancel')) return Promise.reject(fatalError || new Error("Render worker terminated"));
+    const id = nextId++;
+    return new Promise<Ack>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      const message: RenderWorkerRequest = { id, command };
+      worker.postMessage(message, transfer);
+    });
+  };
+
+  return {
+    start: async (job) => {
+      const ack = await request({ type: 'start', job });
+      return { codec: ack.codec || '', encoder: ack.encoder! };
+    },
+    renderFrames: async (frames) => (await request({ type: 'frames', frames }, frames.flatMap(f => [...f.data, ...(f.waveform ?? [])].map(samples => samples.buffer)))).stats!,
+    encodeAudio: async (chunk) => (await request({ type: 'audio', chunk }, [chunk.data.buffer])).stats!,
+    setCover: async (image) => { await request({ type: 'cover', image }); },
+    finish: async () => (await request({ type: 'finish' })).buffer || null,
+    cancel: async (deleteFile) => { await request({ type: 'cancel', deleteFile }); },
+    terminate: () => {
+      terminated = true;
+      worker.terminate();
+      failAll(new Error("Render worker terminated"));
+    },
+  };
+};
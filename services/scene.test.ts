@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { createScene, updateBarDynamics, snapshotScene, restoreScene } from './scene';
+import { DEFAULT_VISUAL_SETTINGS } from '../constants';
+
+const createBarScene = (settings: Partial<typeof DEFAULT_VISUAL_SETTINGS>) =>
+  createScene({ ...DEFAULT_VISUAL_SETTINGS, barAttack: 0, barRelease: 0, noiseGate: 0, peakHold: 400, peakFalloff: 2, ...settings }, 1920, 1080);
+
+const step = (scene: ReturnType<typeof createScene>, level: number, ms: number) =>
+  updateBarDynamics(scene, [new Float32Array([level])], ms);
+
+describe('updateBarDynamics', () => {
+  it('rises and falls with the attack and release time constants', () => {
+    const scene = createBarScene({ barAttack: 50, barRelease: 100 });
+    step(scene, 1, 50);
+    expect(scene.bars![0].levels[0]).toBeCloseTo(1 - Math.exp(-1));
+    step(scene, 1, 1000);
+    step(scene, 0, 100);
+    expect(scene.bars![0].levels[0]).toBeCloseTo(Math.exp(-1), 3);
+  });
+
+  it('treats levels under the noise gate as silence', () => {
+    const scene = createBarScene({ noiseGate: 0.1 });
+    step(scene, 0.05, 16);
+    expect(scene.bars![0].levels[0]).toBe(0);
+    step(scene, 0.2, 16);
+    expect(scene.bars![0].levels[0]).toBeCloseTo(0.2);
+  });
+
+  it('holds a cap at its peak, then lets it fall faster and faster', () => {
+    const scene = createBarScene({});
+    step(scene, 1, 100);
+    step(scene, 0, 400);
+    expect(scene.bars![0].caps[0]).toBe(1);
+    step(scene, 0, 100); // 2 heights/s² for 0.1 s: falling at 0.2 per s
+    expect(scene.bars![0].caps[0]).toBeCloseTo(0.98);
+    step(scene, 0, 100);
+    expect(scene.bars![0].caps[0]).toBeCloseTo(0.94);
+    // Never below the bar
+    step(scene, 0.9, 1000);
+    expect(scene.bars![0].caps[0]).toBeCloseTo(0.9);
+  });
+
+  it('keeps one set of bars per channel', () => {
+    const scene = createBarScene({});
+    updateBarDynamics(scene, [new Float32Array(4), new Float32Array(4)], 16);
+    expect(scene.bars!.map(bars => bars.levels.length)).toEqual([4, 4]);
+  });
+});
+
+describe('snapshotScene', () => {
+  it('restores the bars without sharing them with the snapshot', () => {
+    const scene = createBarScene({ barRelease: 100 });
+    step(scene, 1, 16);
+    const snapshot = snapshotScene(scene);
+    step(scene, 0, 100);
+    restoreScene(scene, snapshot);
+    expect(scene.bars![0].levels[0]).toBe(1);
+    step(scene, 0, 100);
+    expect(snapshot.bars![0].levels[0]).toBe(1);
+  });
+});
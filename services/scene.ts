@@ -0,0 +1,949 @@
+import { VisualSettings } from '../types';
+import { REFERENCE_SHORT_EDGE } from '../constants';
+import { findTrigger } from './waveform';
+import { drawTerrain } from './terrain';
+import { getPathLength, samplePath } from './spectrumPath';
+import { SpectrogramHistory, SpectrogramImage, getSpectrogramColumns, updateSpectrogram, copySpectrogramHistory, paintSpectrogram, drawSpectrogram, parseHexColor } from './spectrogram';
+
+// Shared drawing pipeline used by the live preview (HTMLCanvasElement) and
+// the render worker (OffscreenCanvas). Must not touch the DOM.
+
+export type SceneContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface Particle {
+  x: number; 
+  y: number; 
+  speedX: number;
+  speedY: number; 
+  size: number; 
+  opacity: number;
+  angle: number;
+  color?: string;
+  rotationSpeed?: number;
+  pulseSpeed?: number;
+  rotation?: number;
+  wobble?: number;
+}
+
+// Per-band state behind the drawn spectrum: the smoothed level and the peak cap above it
+export interface BarDynamics {
+  levels: Float32Array;
+  caps: Float32Array;
+  capAge: Float32Array; // ms since the cap was last pushed up
+  capVelocity: Float32Array; // fall speed in full heights per second
+}
+
+export interface Scene {
+  settings: VisualSettings;
+  // Output size in device pixels
+  canvasWidth: number;
+  canvasHeight: number;
+  // Logical drawing space: the short edge is REFERENCE_SHORT_EDGE, so a look designed
+  // in the preview keeps its proportions at any output resolution.
+  pixelScale: number;
+  width: number;
+  height: number;
+  particles: Particle[];
+  colorCycle: number; // advances 60 per second of timeline time
+  randomState: number; // PRNG state for the simulation, so it replays identically from a snapshot
+  discAngle: number; // circle style's disc rotation, radians
+  bars: BarDynamics[] | null; // per channel drawn (see getSpectrumChannels); null until the first frame with audio
+  spectrogram: SpectrogramHistory | null; // only kept while the spectrogram or terrain style is shown
+  spectrogramImage: SpectrogramImage | null; // the history painted, rebuilt after a restore
+  waveform: Float32Array[] | null; // this frame's [left, right] samples for time-domain styles; input, not state
+  background: ImageBitmap | null;
+  logo: ImageBitmap | null;
+  cover: ImageBitmap | null; // the current track's cover art, for the circle style's disc
+}
+
+export const createScene = (settings: VisualSettings, canvasWidth: number, canvasHeight: number): Scene => {
+  const pixelScale = Math.min(canvasWidth, canvasHeight) / REFERENCE_SHORT_EDGE;
+  const width = canvasWidth / pixelScale;
+  const height = canvasHeight / pixelScale;
+  return {
+    settings,
+    canvasWidth,
+    canvasHeight,
+    pixelScale,
+    width,
+    height,
+    particles: createParticles(settings, width, height),
+    colorCycle: 0,
+    randomState: (settings.seed ^ SIMULATION_SEED_SALT) | 0,
+    discAngle: 0,
+    bars: null,
+    spectrogram: null,
+    spectrogramImage: null,
+    waveform: null,
+    background: null,
+    logo: null,
+    cover: null,
+  };
+};
+
+export const loadSceneImage = async (file: Blob | null): Promise<ImageBitmap | null> => {
+  if (!file) return null;
+  try {
+    return await createImageBitmap(file);
+  } catch (e) {
+    console.error("Image decode error", e);
+    return null;
+  }
+};
+
+// Keeps the respawn sequence independent of the initial particle layout
+const SIMULATION_SEED_SALT = 0x5bd1e995;
+
+// Per-frame effects (grain, glitch, flare) draw new random values this often,
+// so they flicker at the same rate in the preview and at any export frame rate
+const EFFECT_STEP_MS = 1000 / 30;
+
+// mulberry32: small, fast and good enough for particles and effects
+const MULBERRY_INCREMENT = 0x6d2b79f5;
+
+const mulberry32 = (state: number): number => {
+  let t = state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+};
+
+const createRandom = (seed: number) => {
+  let state = seed | 0;
+  return () => {
+    state = (state + MULBERRY_INCREMENT) | 0;
+    return mulberry32(state);
+  };
+};
+
+const nextRandom = (scene: Scene): number => {
+  scene.randomState = (scene.randomState + MULBERRY_INCREMENT) | 0;
+  return mulberry32(scene.randomState);
+};
+
+// Random values for the effect step containing `time`: the same for every frame in it
+const createEffectRandom = (seed: number, time: number) =>
+  createRandom(seed ^ Math.imul(Math.floor(time / EFFECT_STEP_MS), 0x9e3779b1));
+
+export const createRandomSeed = () => Math.floor(Math.random() * 0x100000000);
+
+// Particle System Logic
+export const createParticles = (settings: VisualSettings, width: number, height: number): Particle[] => {
+  const particles: Particle[] = [];
+  const random = createRandom(settings.seed);
+  if (settings.particleEffect !== 'none') {
+    const count = Math.floor(settings.particleDensity * 2); 
+    for (let i = 0; i < count; i++) {
+      const p: any = {
+        x: random() * width,
+        y: random() * height,
+        size: (random() * 5 + 2) * (settings.particleSize / 2),
+        opacity: random() * settings.particleOpacity,
+        angle: random() * Math.PI * 2,
+      };
+      // Init logic based on type
+      if (settings.particleEffect === 'snow') {
+         p.speedY = (random() * 2 + 1) * settings.particleSpeed;
+         p.speedX = (random() - 0.5) * 0.5;
+      } else if (settings.particleEffect === 'fog') {
+         p.speedX = (random() * 0.5 + 0.1) * settings.particleSpeed;
+         p.speedY = 0;
+         p.size = p.size * 20;
+         p.opacity = p.opacity * 0.3;
+      } else if (settings.particleEffect === 'petals') {
+         p.speedY = (random() * 1.5 + 0.5) * settings.particleSpeed;
+         p.speedX = (random() - 0.5) * 1.5;
+         p.rotation = random() * 360;
+         p.rotationSpeed = (random() - 0.5) * 2;
+      } else if (settings.particleEffect === 'fireflies') {
+         p.speedX = (random() - 0.5) * settings.particleSpeed;
+         p.speedY = (random() - 0.5) * settings.particleSpeed;
+         p.opacity = random(); 
+         p.pulseSpeed = 0.05;
+      } else if (settings.particleEffect === 'dust') {
+         p.speedX = (random() - 0.5) * 0.5 * settings.particleSpeed;
+         p.speedY = (random() - 0.5) * 0.5 * settings.particleSpeed;
+         p.size = random() * 2;
+      } else if (settings.particleEffect === 'bokeh') {
+         p.speedX = (random() - 0.5) * 0.2 * settings.particleSpeed;
+         p.speedY = (random() - 0.5) * 0.2 * settings.particleSpeed;
+         p.size = random() * 30 + 10;
+         p.opacity = random() * 0.3;
+      } else if (settings.particleEffect === 'confetti') {
+         p.speedY = (random() * 3 + 2) * settings.particleSpeed;
+         p.speedX = (random() - 0.5) * 2;
+         p.rotation = random() * 360;
+         p.rotationSpeed = (random() - 0.5) * 5;
+         const colors = ['#f00', '#0f0', '#00f', '#ff0', '#0ff', '#f0f'];
+         p.color = colors[Math.floor(random() * colors.length)];
+      } else {
+         p.speedY = (random() * 2 + 0.5) * settings.particleSpeed;
+         p.speedX = 0;
+         p.wobble = random() * Math.PI * 2;
+      }
+      particles.push(p);
+    }
+  }
+  return particles;
+};
+
+export const updateParticles = (scene: Scene, deltaTimeMs: number) => {
+  const { settings, particles, width, height } = scene;
+  // Normalize speed relative to 60fps (approx 16.6ms)
+  const timeScale = deltaTimeMs / 16.66; 
+
+  particles.forEach(p => {
+     if (settings.particleEffect === 'snow' || settings.particleEffect === 'rain' || settings.particleEffect === 'petals' || settings.particleEffect === 'confetti') {
+         p.y += p.speedY * timeScale;
+         p.x += p.speedX * timeScale;
+         if (p.y > height) { p.y = -10; p.x = nextRandom(scene) * width; }
+     } else if (settings.particleEffect === 'embers') {
+         p.y -= p.speedY * timeScale;
+         if (p.y < -10) { p.y = height + 10; p.x = nextRandom(scene) * width; }
+     } else if (settings.particleEffect === 'fog') {
+         p.x += p.speedX * timeScale;
+         if (p.x > width) { p.x = -p.size; }
+     } else {
+         p.x += p.speedX * timeScale;
+         p.y += p.speedY * timeScale;
+         if (p.x < 0 || p.x > width) p.speedX *= -1;
+         if (p.y < 0 || p.y > height) p.speedY *= -1;
+     }
+     
+     if (settings.particleEffect === 'heart') {
+        p.wobble = (p.wobble || 0) + (0.05 * timeScale);
+     }
+     
+     if (p.rotationSpeed) p.angle += p.rotationSpeed * 0.01 * timeScale;
+     if (p.pulseSpeed) {
+        p.opacity += p.pulseSpeed * timeScale;
+        if (p.opacity > 1 || p.opacity < 0.2) p.pulseSpeed *= -1;
+     }
+  });
+};
+
+const createBarDynamics = (count: number): BarDynamics => ({
+  levels: new Float32Array(count),
+  caps: new Float32Array(count),
+  capAge: new Float32Array(count),
+  capVelocity: new Float32Array(count),
+});
+
+const copyBarDynamics = (bars: BarDynamics): BarDynamics => ({
+  levels: bars.levels.slice(),
+  caps: bars.caps.slice(),
+  capAge: bars.capAge.slice(),
+  capVelocity: bars.capVelocity.slice(),
+});
+
+// Envelope follower per band (separate attack and release time constants) with a
+// noise gate in front, and caps that hold their peak, then fall with gravity
+const updateChannelDynamics = (bars: BarDynamics, bandLevels: Float32Array, settings: VisualSettings, deltaTimeMs: number) => {
+  const { levels, caps, capAge, capVelocity } = bars;
+  const attack = settings.barAttack > 0 ? 1 - Math.exp(-deltaTimeMs / settings.barAttack) : 1;
+  const release = settings.barRelease > 0 ? 1 - Math.exp(-deltaTimeMs / settings.barRelease) : 1;
+  const seconds = deltaTimeMs / 1000;
+
+  for (let i = 0; i < bandLevels.length; i++) {
+    const input = bandLevels[i] < settings.noiseGate ? 0 : bandLevels[i];
+    levels[i] += (input - levels[i]) * (input > levels[i] ? attack : release);
+
+    if (levels[i] >= caps[i]) {
+      caps[i] = levels[i];
+      capAge[i] = 0;
+      capVelocity[i] = 0;
+    } else if ((capAge[i] += deltaTimeMs) > settings.peakHold) {
+      capVelocity[i] += settings.peakFalloff * seconds;
+      caps[i] = Math.max(levels[i], caps[i] - capVelocity[i] * seconds);
+    }
+  }
+};
+
+export const updateBarDynamics = (scene: Scene, bandLevels: Float32Array[], deltaTimeMs: number) => {
+  const count = bandLevels[0]?.length ?? 0;
+  if (scene.bars?.length !== bandLevels.length || scene.bars[0]?.levels.length !== count) {
+    scene.bars = bandLevels.map(() => createBarDynamics(count));
+  }
+  scene.bars.forEach((bars, channel) => updateChannelDynamics(bars, bandLevels[channel], scene.settings, deltaTimeMs));
+};
+
+// Time-dependent scene state, captured at keyframes so a render can resume mid-way
+// and at range boundaries so parallel workers continue the same animation
+export interface SceneSnapshot {
+  particles: Particle[];
+  colorCycle: number;
+  randomState: number;
+  discAngle: number;
+  bars: BarDynamics[] | null;
+  spectrogram: SpectrogramHistory | null;
+}
+
+export const snapshotScene = (scene: Scene): SceneSnapshot => ({
+  particles: scene.particles.map(p => ({ ...p })),
+  colorCycle: scene.colorCycle,
+  randomState: scene.randomState,
+  discAngle: scene.discAngle,
+  bars: scene.bars && scene.bars.map(copyBarDynamics),
+  spectrogram: scene.spectrogram && copySpectrogramHistory(scene.spectrogram),
+});
+
+export const restoreScene = (scene: Scene, snapshot: SceneSnapshot) => {
+  scene.particles = snapshot.particles.map(p => ({ ...p }));
+  scene.colorCycle = snapshot.colorCycle;
+  // Missing in checkpoints from older builds
+  scene.randomState = snapshot.randomState ?? scene.randomState;
+  scene.discAngle = snapshot.discAngle ?? 0;
+  // A single channel's object in checkpoints from older builds
+  scene.bars = Array.isArray(snapshot.bars) ? snapshot.bars.map(copyBarDynamics) : null;
+  scene.spectrogram = snapshot.spectrogram ? copySpectrogramHistory(snapshot.spectrogram) : null;
+  scene.spectrogramImage = null;
+};
+
+// Advance the animation state by one frame of the given duration. bandLevels are the
+// frame's spectrum bars (see frequencyBands) per channel, or null when there is no audio.
+// waveform is the audio before the frame, if the style draws it (see waveform).
+export const advanceScene = (scene: Scene, deltaTimeMs: number, bandLevels: Float32Array[] | null, waveform: Float32Array[] | null = null) => {
+  scene.waveform = waveform;
+  scene.colorCycle += deltaTimeMs * 0.06;
+  scene.discAngle = (scene.discAngle + (scene.settings.discRotation * Math.PI * 2 * deltaTimeMs) / 60000) % (Math.PI * 2);
+  updateParticles(scene, deltaTimeMs);
+  if (bandLevels) updateBarDynamics(scene, bandLevels, deltaTimeMs);
+  else scene.bars = null;
+  // Fed the smoothed bars, so attack, release and the noise gate shape it too
+  scene.spectrogram = scene.bars && getSpectrogramColumns(scene.settings) > 0
+    ? updateSpectrogram(scene.spectrogram, scene.bars[0].levels, scene.settings, deltaTimeMs)
+    : null;
+};
+
+// Height in logical pixels of a full-scale level; the former 8-bit analyser scale
+const FULL_SCALE_HEIGHT = 255;
+// Circle style: share of the bands (from the bottom) averaged as the bass, the gap
+// between the disc and the ring, and the spindle hole as a fraction of the disc
+const BASS_BAND_FRACTION = 8;
+const DISC_GAP = 4;
+const SPINDLE_SIZE = 0.05;
+// Fade steps along the vectorscope trace, oldest faintest
+const PHOSPHOR_SEGMENTS = 16;
+// Peak caps, in logical pixels
+const CAP_HEIGHT = 3;
+const CAP_GAP = 2;
+
+export const drawScene = (ctx: SceneContext, scene: Scene, time: number) => {
+  const { settings, canvasWidth, pixelScale, width, height, particles, colorCycle, bars, background, logo } = scene;
+  ctx.setTransform(pixelScale, 0, 0, pixelScale, 0, 0);
+
+  // 1. Clear
+  ctx.clearRect(0, 0, width, height);
+
+  // 2. Background with Filters
+  if (background) {
+      ctx.save();
+      const blur = `blur(${settings.bgFilterBlur}px)`;
+      const brightness = `brightness(${settings.bgFilterBrightness})`;
+      let presetFilter = '';
+      const intensity = settings.filterIntensity;
+      switch (settings.filterPreset) {
+          case 'cinematic': presetFilter = `contrast(${100 + 20 * intensity}%) saturate(${100 + 10 * intensity}%)`; break;
+          case 'vintage': presetFilter = `sepia(${50 * intensity}%) contrast(${90 * intensity}%)`; break;
+          case 'noir': presetFilter = `grayscale(${100 * intensity}%) contrast(${120 * intensity}%)`; break;
+          case 'dreamy': presetFilter = `brightness(${100 + 10 * intensity}%) saturate(${100 + 20 * intensity}%)`; break;
+          case 'vivid': presetFilter = `saturate(${100 + 50 * intensity}%) contrast(${110 * intensity}%)`; break;
+          default: presetFilter = '';
+      }
+      ctx.filter = `${blur} ${brightness} ${presetFilter}`;
+      const scale = Math.max(width / background.width, height / background.height);
+      const x = (width / 2) - (background.width / 2) * scale;
+      const y = (height / 2) - (background.height / 2) * scale;
+      ctx.drawImage(background, x, y, background.width * scale, background.height * scale);
+      ctx.restore();
+  } else {
+      ctx.fillStyle = '#111827';
+      ctx.fillRect(0, 0, width, height);
+  }
+
+  // 3. Vignette
+  if (settings.vignette > 0) {
+      const gradient = ctx.createRadialGradient(width/2, height/2, height/3, width/2, height/2, height * 1.2);
+      gradient.addColorStop(0, 'rgba(0,0,0,0)');
+      gradient.addColorStop(1, `rgba(0,0,0,${settings.vignette})`);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0,0,width,height);
+  }
+
+  // 4. Logo
+  let logoRect = { x: 0, y: 0, w: 0, h: 0 };
+  if (logo) {
+      const logoW = (logo.width * settings.logoSize) / 100;
+      const logoH = (logo.height * settings.logoSize) / 100;
+      const logoX = (settings.logoPosition.x / 100) * (width - logoW);
+      const logoY = (settings.logoPosition.y / 100) * (height - logoH);
+      logoRect = { x: logoX, y: logoY, w: logoW, h: logoH };
+      if (settings.logoRemoveBg) {
+           const tempCanvas = new OffscreenCanvas(Math.max(1, Math.round(logoW * pixelScale)), Math.max(1, Math.round(logoH * pixelScale)));
+           const tempCtx = tempCanvas.getContext('2d');
+           if (tempCtx) {
+              tempCtx.drawImage(logo, 0, 0, tempCanvas.width, tempCanvas.height);
+              const imgData = tempCtx.getImageData(0, 0, tempCanvas.width, tempCanvas.height);
+              const data = imgData.data;
+              const keyR = data[0], keyG = data[1], keyB = data[2];
+              for (let i = 0; i < data.length; i += 4) {
+                  const r = data[i], g = data[i+1], b = data[i+2];
+                  const dist = Math.sqrt((r-keyR)**2 + (g-keyG)**2 + (b-keyB)**2);
+                  if (dist < settings.logoThreshold * 3) data[i+3] = 0;
+              }
+              tempCtx.putImageData(imgData, 0, 0);
+              ctx.drawImage(tempCanvas, logoX, logoY, logoW, logoH);
+           }
+      } else {
+          ctx.drawImage(logo, logoX, logoY, logoW, logoH);
+      }
+  }
+
+  // 5. Particles
+  if (settings.particleEffect !== 'none' && particles.length > 0) {
+      let baseParticleColor = settings.particleColor;
+      if (settings.particleColorMode === 'rainbow') {
+          const hue = (colorCycle) % 360;
+          baseParticleColor = `hsl(${hue}, 100%, 70%)`;
+      }
+      ctx.fillStyle = baseParticleColor;
+      const defaultColor = baseParticleColor;
+
+      particles.forEach(p => {
+        ctx.save();
+        ctx.globalAlpha = p.opacity * settings.particleOpacity;
+        
+        if (settings.particleEffect === 'confetti') {
+            if (settings.particleColorMode === 'rainbow') {
+               ctx.fillStyle = `hsl(${(p.angle * 57 + colorCycle) % 360}, 100%, 50%)`;
+            } else {
+               ctx.fillStyle = p.color || defaultColor;
+            }
+            ctx.translate(p.x, p.y);
+            ctx.rotate(p.angle);
+            ctx.fillRect(-p.size/2, -p.size/2, p.size, p.size * 0.6);
+        } else if (settings.particleEffect === 'petals') {
+            if (settings.particleColorMode === 'fixed' && settings.particleColor === '#ffffff') ctx.fillStyle = '#ffb7c5';
+            else ctx.fillStyle = defaultColor;
+            ctx.translate(p.x, p.y);
+            ctx.rotate(p.angle);
+            ctx.beginPath();
+            ctx.ellipse(0, 0, p.size, p.size/2, 0, 0, Math.PI * 2);
+            ctx.fill();
+        } else if (settings.particleEffect === 'fog') {
+            const grad = ctx.createRadialGradient(p.x, p.y, 0, p.x, p.y, p.size);
+            grad.addColorStop(0, `rgba(200, 200, 200, ${0.4 * settings.particleOpacity})`);
+            grad.addColorStop(1, 'rgba(255, 255, 255, 0)');
+            ctx.fillStyle = grad;
+            ctx.fillRect(p.x - p.size, p.y - p.size, p.size * 2, p.size * 2);
+        } else if (settings.particleEffect === 'fireflies') {
+            if (settings.particleColorMode === 'fixed' && settings.particleColor === '#ffffff') ctx.fillStyle = '#ccff00';
+            else ctx.fillStyle = defaultColor;
+            ctx.globalAlpha = p.opacity * settings.particleOpacity;
+            ctx.beginPath();
+            ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.shadowBlur = 5;
+            ctx.shadowColor = ctx.fillStyle as string;
+            ctx.fill();
+        } else if (settings.particleEffect === 'rain') {
+           ctx.fillStyle = defaultColor;
+           ctx.fillRect(p.x, p.y, 1, p.size * 5);
+        } else if (settings.particleEffect === 'snow') {
+           ctx.fillStyle = defaultColor;
+           ctx.beginPath();
+           ctx.arc(p.x, p.y, p.size/2, 0, Math.PI * 2);
+           ctx.fill();
+        } else if (settings.particleEffect === 'embers') {
+           if (settings.particleColorMode === 'fixed' && settings.particleColor === '#ffffff') ctx.fillStyle = '#ff4500';
+           else ctx.fillStyle = defaultColor;
+           ctx.shadowBlur = 10;
+           ctx.shadowColor = ctx.fillStyle as string;
+           ctx.beginPath();
+           ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
+           ctx.fill();
+        } else if (settings.particleEffect === 'heart') {
+           if (settings.particleColorMode === 'fixed' && settings.particleColor === '#ffffff') ctx.fillStyle = '#ff69b4';
+           else ctx.fillStyle = defaultColor;
+           
+           ctx.translate(p.x, p.y);
+           ctx.rotate(Math.sin(p.wobble || 0) * 0.2); 
+
+           const s = p.size;
+           ctx.beginPath();
+           ctx.moveTo(0, -s * 0.2);
+           ctx.bezierCurveTo(-s * 0.5, -s * 0.6, -s, -s * 0.2, -s, s * 0.2);
+           ctx.bezierCurveTo(-s, s * 0.6, -s * 0.5, s * 0.8, 0, s * 1.2);
+           ctx.bezierCurveTo(s * 0.5, s * 0.8, s, s * 0.6, s, s * 0.2);
+           ctx.bezierCurveTo(s, -s * 0.2, s * 0.5, -s * 0.6, 0, -s * 0.2);
+           ctx.fill();
+        } else {
+           ctx.fillStyle = defaultColor;
+           ctx.beginPath();
+           ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
+           ctx.fill();
+        }
+        ctx.restore();
+      });
+  }
+
+  // 6. Spectrum
+  if (settings.spectrumStyle !== 'none' && bars) {
+      // Styles that can't show stereo get one channel, see getSpectrumChannels
+      const [primary, secondary] = bars;
+      const level = (index: number, channel = primary) => (channel.levels[index] || 0) * FULL_SCALE_HEIGHT;
+      const cap = (index: number, channel = primary) => (channel.caps[index] || 0) * FULL_SCALE_HEIGHT;
+      ctx.fillStyle = settings.spectrumColor;
+      ctx.strokeStyle = settings.spectrumColor;
+      ctx.lineWidth = settings.spectrumThickness;
+      ctx.globalAlpha = settings.spectrumOpacity;
+      
+      const centerX = settings.spectrumCenter ? width / 2 : (settings.spectrumPosition.x / 100) * width;
+      const centerY = settings.spectrumCenter ? height / 2 : (settings.spectrumPosition.y / 100) * height;
+      const barCount = settings.frequencyRange; 
+      const renderWidth = (settings.spectrumWidth / 100) * width;
+      
+      const getRainbowColor = (index: number, total: number) => {
+           const hue = (index / total * 360 + colorCycle * 0.5) % 360;
+           return `hsl(${hue}, 100%, 50%)`;
+      };
+      
+      if (secondary && (settings.spectrumStyle === 'bar' || settings.spectrumStyle === 'mirror-bar')) {
+           // Stacked: first channel up, second down from the centre line. Side by side: first
+           // channel on the left, mirrored so both halves start from the bass in the middle.
+           const mirrored = settings.spectrumStyle === 'mirror-bar';
+           const scale = settings.spectrumSensitivity * settings.maxHeight * (mirrored ? 0.7 : 1);
+           const spacing = settings.barWidth + 2;
+           const drawBar = (x: number, index: number, channel: BarDynamics, up: boolean) => {
+              const h = level(index, channel) * scale;
+              ctx.fillRect(x, up ? centerY - h : centerY, settings.barWidth, h);
+              if (settings.peakCaps) {
+                  const capY = cap(index, channel) * scale + CAP_GAP;
+                  ctx.fillRect(x, up ? centerY - capY - CAP_HEIGHT : centerY + capY, settings.barWidth, CAP_HEIGHT);
+              }
+           };
+           if (settings.stereoMode === 'side-by-side') {
+               for (let i = 0; i < barCount; i++) {
+                  if (settings.spectrumColorMode === 'rainbow') ctx.fillStyle = getRainbowColor(i, barCount);
+                  const leftX = centerX - (i + 1) * spacing + 1;
+                  const rightX = centerX + i * spacing + 1;
+                  drawBar(leftX, i, primary, true);
+                  drawBar(rightX, i, secondary, true);
+                  if (mirrored) {
+                      drawBar(leftX, i, primary, false);
+                      drawBar(rightX, i, secondary, false);
+                  }
+               }
+           } else {
+               const startX = centerX - (barCount * spacing) / 2;
+               for (let i = 0; i < barCount; i++) {
+                  if (settings.spectrumColorMode === 'rainbow') ctx.fillStyle = getRainbowColor(i, barCount);
+                  drawBar(startX + i * spacing, i, primary, true);
+                  drawBar(startX + i * spacing, i, secondary, false);
+               }
+           }
+      }
+      else if (settings.spectrumStyle === 'bar') {
+           const spacing = settings.barWidth + 2;
+           const totalW = barCount * spacing;
+           const startX = centerX - totalW / 2;
+           for(let i = 0; i < barCount; i++) {
+              const val = level(i);
+              const h = val * settings.spectrumSensitivity * settings.maxHeight;
+              if (settings.spectrumColorMode === 'rainbow') ctx.fillStyle = getRainbowColor(i, barCount);
+              ctx.fillRect(startX + (i * spacing), centerY - h, settings.barWidth, h);
+              if (settings.peakCaps) {
+                  const capY = cap(i) * settings.spectrumSensitivity * settings.maxHeight + CAP_GAP;
+                  ctx.fillRect(startX + (i * spacing), centerY - capY - CAP_HEIGHT, settings.barWidth, CAP_HEIGHT);
+              }
+           }
+      } 
+      else if (settings.spectrumStyle === 'mirror-bar') {
+           const spacing = settings.barWidth + 2;
+           const totalW = barCount * spacing;
+           const startX = centerX - totalW / 2;
+           for(let i = 0; i < barCount; i++) {
+              const val = level(i);
+              const h = val * settings.spectrumSensitivity * settings.maxHeight * 0.7; 
+              if (settings.spectrumColorMode === 'rainbow') ctx.fillStyle = getRainbowColor(i, barCount);
+              ctx.fillRect(startX + (i * spacing), centerY - h, settings.barWidth, h);
+              ctx.fillRect(startX + (i * spacing), centerY, settings.barWidth, h);
+              if (settings.peakCaps) {
+                  const capY = cap(i) * settings.spectrumSensitivity * settings.maxHeight * 0.7 + CAP_GAP;
+                  ctx.fillRect(startX + (i * spacing), centerY - capY - CAP_HEIGHT, settings.barWidth, CAP_HEIGHT);
+                  ctx.fillRect(startX + (i * spacing), centerY + capY, settings.barWidth, CAP_HEIGHT);
+              }
+           }
+      }
+      else if (settings.spectrumStyle === 'mini-bar') {
+           let startX = 0;
+           let startY = 0;
+           if (settings.spectrumCenter) {
+               const spacing = settings.barWidth + 4;
+               const bands = 6;
+               const totalW = bands * spacing;
+               startX = (width / 2) - (totalW / 2);
+               startY = height / 2;
+           } else {
+               startX = logoRect.x + logoRect.w + 20;
+               startY = logoRect.y + logoRect.h / 2;
+           }
+           const bands = 6;
+           const spacing = settings.barWidth + 4; 
+           for(let i = 0; i < bands; i++) {
+               const val = level(Math.floor((i + 0.5) * barCount / bands));
+               const h = val * settings.spectrumSensitivity * 0.5 * settings.maxHeight;
+               if (settings.spectrumColorMode === 'rainbow') ctx.fillStyle = getRainbowColor(i, bands);
+               ctx.fillRect(startX + (i * spacing), startY - h/2, settings.barWidth, h);
+           }
+      }
+      else if (settings.spectrumStyle === 'line') {
+           ctx.beginPath();
+           const sliceW = renderWidth / barCount;
+           const startX = centerX - (renderWidth / 2);
+           if (settings.spectrumColorMode === 'rainbow') {
+               const grad = ctx.createLinearGradient(startX, centerY, startX + renderWidth, centerY);
+               for (let k = 0; k <= 1; k+=0.1) grad.addColorStop(k, `hsl(${(k * 360 + colorCycle) % 360}, 100%, 50%)`);
+               ctx.strokeStyle = grad;
+           }
+           for(let i = 0; i < barCount; i++) {
+               const val = level(i);
+               const h = val * settings.spectrumSensitivity * settings.maxHeight;
+               const x = startX + i * sliceW;
+               const y = centerY - h; 
+               if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+           }
+           ctx.stroke();
+      }
+      else if (settings.spectrumStyle === 'wave') {
+           const lines = 3;
+           for(let l = 0; l < lines; l++) {
+               ctx.beginPath();
+               if (settings.spectrumColorMode === 'rainbow') {
+                   const hue = (colorCycle + l * 30) % 360;
+                   ctx.strokeStyle = `hsla(${hue}, 100%, 50%, ${settings.spectrumOpacity * (1 - l * 0.2)})`;
+               } else {
+                   ctx.globalAlpha = settings.spectrumOpacity * (1 - l * 0.2);
+               }
+               for(let i = 0; i < barCount; i++) {
+                   const val = level(i);
+                   const v = level(i + (l * 5)) / 128.0;
+                   const y = v * (height/4) * settings.spectrumSensitivity * settings.maxHeight;
+                   const actualY = centerY + (y - (height/8)) + (l * 20);
+                   const x = i * (width / barCount);
+                   if (i === 0) ctx.moveTo(x, actualY); else ctx.lineTo(x, actualY);
+               }
+               ctx.stroke();
+           }
+      }
+      else if (settings.spectrumStyle === 'spectrogram') {
+           const history = scene.spectrogram;
+           scene.spectrogramImage = history && paintSpectrogram(scene.spectrogramImage, history, settings);
+           if (history && scene.spectrogramImage) {
+               const h = FULL_SCALE_HEIGHT * settings.maxHeight;
+               drawSpectrogram(ctx, scene.spectrogramImage, history, settings.spectrogramDirection, centerX - renderWidth / 2, centerY - h / 2, renderWidth, h);
+           }
+      }
+      else if (settings.spectrumStyle === 'terrain' && scene.spectrogram) {
+           drawTerrain(ctx, scene.spectrogram, settings, colorCycle, centerX, centerY, renderWidth, FULL_SCALE_HEIGHT * settings.maxHeight);
+      }
+      else if (settings.spectrumStyle === 'oscilloscope' && scene.waveform) {
+           const [left, right] = scene.waveform;
+           const mono = new Float32Array(left.length);
+           for (let i = 0; i < mono.length; i++) mono[i] = (left[i] + right[i]) / 2;
+           // Sweep from the trigger, so a periodic signal stands still
+           const trigger = findTrigger(mono);
+           const span = Math.floor(mono.length / 2);
+           const amplitude = (FULL_SCALE_HEIGHT / 2) * settings.spectrumSensitivity * settings.maxHeight;
+           const startX = centerX - renderWidth / 2;
+           if (settings.spectrumColorMode === 'rainbow') ctx.strokeStyle = `hsl(${colorCycle % 360}, 100%, 60%)`;
+           ctx.beginPath();
+           for (let i = 0; i < span; i++) {
+               const x = startX + (i / Math.max(1, span - 1)) * renderWidth;
+               const y = centerY - (mono[trigger + i] ?? 0) * amplitude;
+               if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+           }
+           ctx.stroke();
+      }
+      else if (settings.spectrumStyle === 'vectorscope' && scene.waveform) {
+           // Lissajous: left on x, right on y. Older samples fade like phosphor.
+           const [left, right] = scene.waveform;
+           const radius = (FULL_SCALE_HEIGHT / 2) * settings.spectrumSensitivity * settings.maxHeight;
+           const segments = PHOSPHOR_SEGMENTS;
+           const length = left.length;
+           if (settings.spectrumColorMode === 'rainbow') ctx.strokeStyle = `hsl(${colorCycle % 360}, 100%, 60%)`;
+           ctx.save();
+           ctx.shadowBlur = 8;
+           ctx.shadowColor = ctx.strokeStyle as string;
+           for (let segment = 0; segment < segments; segment++) {
+               const from = Math.floor((segment * length) / segments);
+               const to = Math.min(length - 1, Math.floor(((segment + 1) * length) / segments));
+               if (to <= from) continue;
+               const age = 1 - (segment + 1) / segments;
+               ctx.globalAlpha = settings.spectrumOpacity * (1 - age) * (1 - age);
+               ctx.beginPath();
+               ctx.moveTo(centerX + left[from] * radius, centerY - right[from] * radius);
+               for (let i = from + 1; i <= to; i++) ctx.lineTo(centerX + left[i] * radius, centerY - right[i] * radius);
+               ctx.stroke();
+           }
+           ctx.restore();
+      }
+      else if (settings.spectrumStyle === 'circle') {
+           const bassBands = Math.max(1, Math.floor(primary.levels.length / BASS_BAND_FRACTION));
+           let bass = 0;
+           for (let i = 0; i < bassBands; i++) bass += primary.levels[i] / bassBands;
+           const radius = 100 * settings.maxHeight * (1 + settings.bassPulse * bass * 0.5);
+           const scale = settings.spectrumSensitivity * 0.5 * settings.maxHeight;
+
+           // Record disc: the picture clipped to a circle, turning with the scene
+           const disc = { none: null, logo, background, cover: scene.cover }[settings.discImage];
+           if (disc) {
+               const discRadius = Math.max(1, radius - DISC_GAP);
+               const fit = (2 * discRadius) / Math.min(disc.width, disc.height);
+               ctx.save();
+               ctx.globalAlpha = 1;
+               ctx.beginPath();
+               ctx.arc(centerX, centerY, discRadius, 0, Math.PI * 2);
+               ctx.clip();
+               ctx.translate(centerX, centerY);
+               ctx.rotate(scene.discAngle);
+               ctx.drawImage(disc, (-disc.width * fit) / 2, (-disc.height * fit) / 2, disc.width * fit, disc.height * fit);
+               ctx.fillStyle = '#111827';
+               ctx.beginPath();
+               ctx.arc(0, 0, discRadius * SPINDLE_SIZE, 0, Math.PI * 2);
+               ctx.fill();
+               ctx.restore();
+           }
+           if (settings.discGlow > 0) {
+               const [r, g, b] = parseHexColor(settings.spectrumColor);
+               const color = settings.spectrumColorMode === 'rainbow' ? `hsla(${colorCycle % 360}, 100%, 50%, ` : `rgba(${r}, ${g}, ${b}, `;
+               const glow = ctx.createRadialGradient(centerX, centerY, radius * 0.5, centerX, centerY, radius);
+               glow.addColorStop(0, `${color}0)`);
+               glow.addColorStop(1, `${color}1)`);
+               ctx.save();
+               ctx.globalAlpha = settings.spectrumOpacity * settings.discGlow * (0.3 + 0.7 * bass);
+               ctx.fillStyle = glow;
+               ctx.beginPath();
+               ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+               ctx.fill();
+               ctx.restore();
+           }
+
+           // angle: degrees clockwise from 12 o'clock. Inward bars stop at the centre.
+           const drawSpoke = (angle: number, index: number, channel: BarDynamics) => {
+               const h = level(index, channel) * scale;
+               const capH = cap(index, channel) * scale;
+               ctx.save();
+               ctx.translate(centerX, centerY);
+               ctx.rotate((angle * Math.PI) / 180 - Math.PI);
+               if (settings.circleBarDirection === 'outward') {
+                   ctx.fillRect(0, radius, settings.spectrumThickness, h);
+                   if (settings.peakCaps) ctx.fillRect(0, radius + capH + CAP_GAP, settings.spectrumThickness, CAP_HEIGHT);
+               } else if (settings.circleBarDirection === 'inward') {
+                   const inner = Math.min(h, radius);
+                   ctx.fillRect(0, radius - inner, settings.spectrumThickness, inner);
+                   if (settings.peakCaps && capH + CAP_GAP + CAP_HEIGHT < radius) ctx.fillRect(0, radius - capH - CAP_GAP - CAP_HEIGHT, settings.spectrumThickness, CAP_HEIGHT);
+               } else {
+                   const half = Math.min(h / 2, radius);
+                   ctx.fillRect(0, radius - half, settings.spectrumThickness, half * 2);
+                   if (settings.peakCaps) {
+                       ctx.fillRect(0, radius + capH / 2 + CAP_GAP, settings.spectrumThickness, CAP_HEIGHT);
+                       if (capH / 2 + CAP_GAP + CAP_HEIGHT < radius) ctx.fillRect(0, radius - capH / 2 - CAP_GAP - CAP_HEIGHT, settings.spectrumThickness, CAP_HEIGHT);
+                   }
+               }
+               ctx.restore();
+           };
+           const arc = Math.min(360, settings.circleArc);
+           if (secondary) {
+               // One channel either side of the start angle, bass meeting there
+               const step = arc / 2 / barCount;
+               for (let i = 0; i < barCount; i++) {
+                   if (settings.spectrumColorMode === 'rainbow') ctx.fillStyle = getRainbowColor(i, barCount);
+                   drawSpoke(settings.circleStartAngle + (i + 0.5) * step, i, primary);
+                   drawSpoke(settings.circleStartAngle - (i + 0.5) * step, i, secondary);
+               }
+           } else {
+               // A full circle doesn't repeat its first bar at the end; a partial arc ends on its last
+               const step = arc >= 360 ? arc / barCount : arc / Math.max(1, barCount - 1);
+               for (let i = 0; i < barCount; i++) {
+                   if (settings.spectrumColorMode === 'rainbow') ctx.fillStyle = getRainbowColor(i, barCount);
+                   drawSpoke(settings.circleStartAngle + i * step, i, primary);
+               }
+           }
+      }
+      else if (settings.spectrumStyle === 'path' && settings.spectrumPath) {
+           // Bands evenly spaced along the path, each bar standing on the normal at its point
+           const path = settings.spectrumPath;
+           const length = getPathLength(path);
+           const scale = settings.spectrumSensitivity * 0.5 * settings.maxHeight;
+           const sample = { x: 0, y: 0, angle: 0 };
+           for (let i = 0; i < barCount && length > 0; i++) {
+               samplePath(path, ((i + 0.5) / barCount) * length, sample);
+               const h = level(i) * scale;
+               const capH = cap(i) * scale;
+               if (settings.spectrumColorMode === 'rainbow') ctx.fillStyle = getRainbowColor(i, barCount);
+               ctx.save();
+               ctx.translate(centerX + sample.x * renderWidth, centerY + sample.y * renderWidth);
+               ctx.rotate(sample.angle);
+               const half = settings.barWidth / 2;
+               if (settings.pathBarDirection === 'outward') {
+                   ctx.fillRect(0, -half, h, settings.barWidth);
+                   if (settings.peakCaps) ctx.fillRect(capH + CAP_GAP, -half, CAP_HEIGHT, settings.barWidth);
+               } else if (settings.pathBarDirection === 'inward') {
+                   ctx.fillRect(-h, -half, h, settings.barWidth);
+                   if (settings.peakCaps) ctx.fillRect(-capH - CAP_GAP - CAP_HEIGHT, -half, CAP_HEIGHT, settings.barWidth);
+               } else {
+                   ctx.fillRect(-h / 2, -half, h, settings.barWidth);
+                   if (settings.peakCaps) {
+                       ctx.fillRect(capH / 2 + CAP_GAP, -half, CAP_HEIGHT, settings.barWidth);
+                       ctx.fillRect(-capH / 2 - CAP_GAP - CAP_HEIGHT, -half, CAP_HEIGHT, settings.barWidth);
+                   }
+               }
+               ctx.restore();
+           }
+      }
+
+      ctx.globalAlpha = 1.0;
+  }
+
+  // 7. Screen Effects (Post-Processing)
+  if (settings.screenEffect !== 'none') {
+     const intensity = settings.screenEffectIntensity;
+     const t = time * 0.001; 
+     const random = createEffectRandom(settings.seed, time);
+
+     if (settings.screenEffect === 'grain') {
+         ctx.save();
+         ctx.globalCompositeOperation = 'overlay';
+         ctx.globalAlpha = intensity * 0.3;
+         for (let i = 0; i < width; i += 4) {
+             for (let j = 0; j < height; j += 4) {
+                 if (random() > 0.5) {
+                     ctx.fillStyle = '#000';
+                     ctx.fillRect(i, j, 2, 2);
+                 }
+             }
+         }
+         ctx.restore();
+     } 
+     else if (settings.screenEffect === 'glitch') {
+         if (random() < intensity * 0.5) {
+             const sliceH = random() * 50 + 10;
+             const sliceY = random() * height;
+             const offset = (random() - 0.5) * 20 * intensity;
+             try {
+                 ctx.drawImage(ctx.canvas, 0, sliceY * pixelScale, canvasWidth, sliceH * pixelScale, offset, sliceY, width, sliceH);
+                 ctx.save();
+                 ctx.globalCompositeOperation = 'color-dodge';
+                 ctx.globalAlpha = 0.5;
+                 ctx.fillStyle = 'rgba(255,0,0,0.5)';
+                 ctx.fillRect(0, sliceY, width, sliceH);
+                 ctx.restore();
+             } catch(e) {}
+         }
+     }
+     else if (settings.screenEffect === 'bloom') {
+         ctx.save();
+         ctx.globalCompositeOperation = 'screen';
+         ctx.filter = `blur(${20 * intensity}px)`;
+         ctx.globalAlpha = intensity * 0.5;
+         ctx.drawImage(ctx.canvas, 0, 0, width, height);
+         ctx.restore();
+     }
+     else if (settings.screenEffect === 'vhs') {
+         ctx.save();
+         ctx.globalAlpha = 0.1 * intensity;
+         ctx.fillStyle = '#000';
+         for (let y = 0; y < height; y += 4) {
+             ctx.fillRect(0, y, width, 2);
+         }
+         ctx.restore();
+     }
+     else if (settings.screenEffect === 'light-leak') {
+         ctx.save();
+         ctx.globalCompositeOperation = 'screen';
+         const leakCount = 3;
+         for(let i=0; i<leakCount; i++) {
+             const speed = 0.5;
+             const x = (Math.sin(t * speed + i * 2) * 0.5 + 0.5) * width;
+             const y = (Math.cos(t * speed * 0.7 + i) * 0.5 + 0.5) * height;
+             const size = Math.max(width, height) * (0.25 + Math.sin(t + i) * 0.1);
+             const grad = ctx.createRadialGradient(x, y, 0, x, y, size);
+             const alpha = intensity * (0.3 + Math.sin(t * 2 + i) * 0.1);
+             if (i===0) {
+                 grad.addColorStop(0, `rgba(255, 100, 50, ${alpha})`);
+                 grad.addColorStop(1, 'rgba(255, 100, 50, 0)');
+             } else if (i===1) {
+                 grad.addColorStop(0, `rgba(255, 200, 100, ${alpha})`);
+                 grad.addColorStop(1, 'rgba(255, 200, 100, 0)');
+             } else {
+                 grad.addColorStop(0, `rgba(255, 150, 150, ${alpha})`);
+                 grad.addColorStop(1, 'rgba(255, 150, 150, 0)');
+             }
+             ctx.fillStyle = grad;
+             ctx.fillRect(0,0,width,height);
+         }
+         ctx.restore();
+     }
+     else if (settings.screenEffect === 'lens-flare') {
+         ctx.save();
+         ctx.globalCompositeOperation = 'screen';
+         const sunX = (Math.sin(t * 0.3) * 0.4 + 0.5) * width;
+         const sunY = (Math.sin(t * 0.6) * 0.2 + 0.2) * height; 
+         const cx = width / 2;
+         const cy = height / 2;
+         const dx = cx - sunX;
+         const dy = cy - sunY;
+         
+         const mainGrad = ctx.createRadialGradient(sunX, sunY, 0, sunX, sunY, 300 * intensity);
+         mainGrad.addColorStop(0, `rgba(255, 255, 255, ${0.8 * intensity})`);
+         mainGrad.addColorStop(0.2, `rgba(255, 255, 200, ${0.4 * intensity})`);
+         mainGrad.addColorStop(1, 'rgba(255, 255, 255, 0)');
+         ctx.fillStyle = mainGrad;
+         ctx.fillRect(0,0,width,height);
+         
+         ctx.translate(sunX, sunY);
+         ctx.rotate(t * 0.1);
+         ctx.strokeStyle = `rgba(255, 255, 255, ${0.2 * intensity})`;
+         ctx.lineWidth = 2;
+         ctx.beginPath();
+         for(let i=0; i<8; i++) {
+             ctx.rotate(Math.PI / 4);
+             ctx.moveTo(0,0);
+             ctx.lineTo(100 + random()*50, 0);
+         }
+         ctx.stroke();
+         ctx.setTransform(pixelScale, 0, 0, pixelScale, 0, 0);
+
+         const ghosts = [0.5, 1.2, 2.2, 3.5]; 
+         ghosts.forEach((g, i) => {
+             const gx = sunX + dx * g;
+             const gy = sunY + dy * g;
+             const size = (50 + i * 30) * intensity;
+             const alpha = (0.1 + random()*0.1) * intensity;
+             ctx.beginPath();
+             ctx.arc(gx, gy, size, 0, Math.PI*2);
+             ctx.fillStyle = i%2===0 ? `rgba(200, 255, 200, ${alpha})` : `rgba(200, 200, 255, ${alpha})`;
+             ctx.fill();
+         });
+         ctx.restore();
+     }
+     else if (settings.screenEffect === 'light-sweep') {
+         ctx.save();
+         ctx.globalCompositeOperation = 'overlay'; 
+         const period = 5; 
+         const progress = (t % period) / period;
+         const startX = (progress * 2 - 0.5) * width; 
+         const sweepW = width * 0.3;
+         ctx.translate(startX, 0);
+         ctx.transform(1, 0, -0.4, 1, 0, 0); 
+         const grad = ctx.createLinearGradient(0, 0, sweepW, 0);
+         grad.addColorStop(0, 'rgba(255, 255, 255, 0)');
+         grad.addColorStop(0.5, `rgba(255, 255, 255, ${0.6 * intensity})`);
+         grad.addColorStop(1, 'rgba(255, 255, 255, 0)');
+         ctx.fillStyle = grad;
+         ctx.fillRect(0, 0, sweepW, height);
+         ctx.restore();
+     }
+  }
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { updateSpectrogram, getSpectrogramColumns, copySpectrogramHistory, parseHexColor } from './spectrogram';
+import { DEFAULT_VISUAL_SETTINGS } from '../constants';
+
+// 2 s of history at 30 columns per second
+const settings = { ...DEFAULT_VISUAL_SETTINGS, spectrumStyle: 'spectrogram' as const, spectrogramHistory: 2, spectrumSensitivity: 1 };
+
+describe('getSpectrogramColumns', () => {
+  it('keeps history only for the styles that draw it', () => {
+    expect(getSpectrogramColumns(settings)).toBe(60);
+    expect(getSpectrogramColumns({ ...settings, spectrumStyle: 'terrain', terrainDepth: 24 })).toBe(24);
+    expect(getSpectrogramColumns({ ...settings, spectrumStyle: 'bar' })).toBe(0);
+  });
+});
+
+describe('updateSpectrogram', () => {
+  it('adds columns at the same rate of timeline time at any frame rate', () => {
+    const levels = new Float32Array([0, 0.5, 1]);
+    for (const fps of [24, 30, 60]) {
+      let history = null;
+      for (let frame = 0; frame < fps; frame++) history = updateSpectrogram(history, levels, settings, 1000 / fps);
+      expect(history!.count).toBe(30);
+    }
+  });
+
+  it('writes levels as bytes into a ring that overwrites the oldest column', () => {
+    let history = null;
+    for (let column = 0; column < 62; column++) {
+      history = updateSpectrogram(history, new Float32Array([column / 100, 2]), settings, 1000 / 30);
+    }
+    expect(history!.count).toBe(62);
+    expect(history!.head).toBe(2);
+    // Columns 60 and 61 replaced 0 and 1; loud levels are clipped
+    expect(Array.from(history!.data.subarray(0, 4))).toEqual([153, 255, 156, 255]);
+    expect(history!.data[4]).toBe(5);
+  });
+
+  it('starts over when the history length or band count changes', () => {
+    const history = updateSpectrogram(null, new Float32Array(4).fill(1), settings, 1000 / 30);
+    const copy = copySpectrogramHistory(history);
+    expect(updateSpectrogram(history, new Float32Array(8), settings, 1000 / 30).count).toBe(1);
+    expect(updateSpectrogram(copy, new Float32Array(4), { ...settings, spectrogramHistory: 1 }, 1000 / 30).columns).toBe(30);
+    // The copy is independent of the history it was taken from
+    expect(copy.data).not.toBe(history.data);
+  });
+});
+
+describe('parseHexColor', () => {
+  it('reads full and short forms, black when unreadable', () => {
+    expect(parseHexColor('#ff8000')).toEqual([255, 128, 0]);
+    expect(parseHexColor('#ff')).toEqual([255, 0, 0]);
+    expect(parseHexColor('nope')).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,168 @@
+import { VisualSettings, SpectrogramColorMap, ScrollDirection } from '../types';
+import { SceneContext } from './scene';
+
+// Scrolling spectrogram: a ring buffer of past spectrum columns (scene state, so it is
+// captured in snapshots) painted into an offscreen image one new column at a time.
+// The terrain style draws the same history as receding rows.
+// Columns are taken at a fixed rate of timeline time, so the history looks the same at
+// any export frame rate and replays identically after a resume.
+
+const COLUMNS_PER_SECOND = 30;
+const COLUMN_MS = 1000 / COLUMNS_PER_SECOND;
+// Float slack so a frame of exactly one column's duration always adds one
+const COLUMN_EPSILON_MS = 1e-6;
+
+export interface SpectrogramHistory {
+  columns: number;
+  bands: number;
+  data: Uint8Array; // columns × bands, column after column, 0-255 per band
+  head: number; // column written next, i.e. the oldest
+  count: number; // columns written so far
+  pending: number; // ms of timeline not yet turned into a column
+}
+
+// Painted history, kept next to the scene but never snapshotted: it is rebuilt from the data
+export interface SpectrogramImage {
+  canvas: OffscreenCanvas;
+  ctx: OffscreenCanvasRenderingContext2D;
+  image: ImageData;
+  key: string; // colour map and colour it was painted with
+  count: number; // history.count when last painted
+}
+
+const createHistory = (columns: number, bands: number): SpectrogramHistory => ({
+  columns,
+  bands,
+  data: new Uint8Array(columns * bands),
+  head: 0,
+  count: 0,
+  pending: 0,
+});
+
+export const copySpectrogramHistory = (history: SpectrogramHistory): SpectrogramHistory => ({ ...history, data: history.data.slice() });
+
+// Columns of history the style draws, 0 if it doesn't use any. The terrain style keeps
+// one per row it draws.
+export const getSpectrogramColumns = (settings: VisualSettings) => {
+  switch (settings.spectrumStyle) {
+    case 'spectrogram': return Math.max(1, Math.round(settings.spectrogramHistory * COLUMNS_PER_SECOND));
+    case 'terrain': return settings.terrainDepth;
+    default: return 0;
+  }
+};
+
+// levels: the frame's bar levels (0-1 per band). Returns the history, resized if the settings changed.
+export const updateSpectrogram = (history: SpectrogramHistory | null, levels: Float32Array, settings: VisualSettings, deltaTimeMs: number) => {
+  const columns = getSpectrogramColumns(settings);
+  if (!history || history.columns !== columns || history.bands !== levels.length) history = createHistory(columns, levels.length);
+  history.pending += deltaTimeMs;
+  while (history.pending >= COLUMN_MS - COLUMN_EPSILON_MS) {
+    history.pending -= COLUMN_MS;
+    const offset = history.head * history.bands;
+    for (let band = 0; band < history.bands; band++) {
+      history.data[offset + band] = Math.round(Math.min(1, levels[band] * settings.spectrumSensitivity) * 255);
+    }
+    history.head = (history.head + 1) % history.columns;
+    history.count++;
+  }
+  return history;
+};
+
+// Colour map stops, low to high
+const COLOR_MAP_STOPS: Record<Exclude<SpectrogramColorMap, 'mono'>, string[]> = {
+  magma: ['#000004', '#180f3d', '#440f76', '#721f81', '#9e2f7f', '#cd4071', '#f1605d', '#fd9668', '#feca8d', '#fcfdbf'],
+  inferno: ['#000004', '#1b0c41', '#4a0c6b', '#781c6d', '#a52c60', '#cf4446', '#ed6925', '#fb9b06', '#f7d13d', '#fcffa4'],
+  viridis: ['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725'],
+  grayscale: ['#000000', '#ffffff'],
+};
+
+export const parseHexColor = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// RGBA per level 0-255. 'mono' is the spectrum colour, transparent when silent.
+const createLookupTable = (colorMap: SpectrogramColorMap, color: string) => {
+  const table = new Uint8ClampedArray(256 * 4);
+  if (colorMap === 'mono') {
+    const [r, g, b] = parseHexColor(color);
+    for (let i = 0; i < 256; i++) table.set([r, g, b, i], i * 4);
+    return table;
+  }
+  const stops = COLOR_MAP_STOPS[colorMap].map(parseHexColor);
+  for (let i = 0; i < 256; i++) {
+    const position = (i / 255) * (stops.length - 1);
+    const stop = Math.min(stops.length - 2, Math.floor(position));
+    const t = position - stop;
+    const [r0, g0, b0] = stops[stop];
+    const [r1, g1, b1] = stops[stop + 1];
+    table.set([r0 + (r1 - r0) * t, g0 + (g1 - g0) * t, b0 + (b1 - b0) * t, 255], i * 4);
+  }
+  return table;
+};
+
+const lookupTables = new Map<string, Uint8ClampedArray>();
+
+// Paints the columns written since last time (all of them for a new image): time along x,
+// oldest at the ring's head, low frequencies at the bottom
+export const paintSpectrogram = (image: SpectrogramImage | null, history: SpectrogramHistory, settings: VisualSettings): SpectrogramImage | null => {
+  const key = settings.spectrogramColorMap === 'mono' ? `mono:${settings.spectrumColor}` : settings.spectrogramColorMap;
+  if (!image || image.key !== key || image.count > history.count || image.canvas.width !== history.columns || image.canvas.height !== history.bands) {
+    const canvas = new OffscreenCanvas(history.columns, history.bands);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    image = { canvas, ctx, image: ctx.createImageData(history.columns, history.bands), key, count: -Infinity };
+  }
+
+  let table = lookupTables.get(key);
+  if (!table) {
+    table = createLookupTable(settings.spectrogramColorMap, settings.spectrumColor);
+    lookupTables.set(key, table);
+  }
+  const { columns, bands, data } = history;
+  const pixels = image.image.data;
+  for (let n = Math.max(image.count, history.count - columns); n < history.count; n++) {
+    const column = ((n % columns) + columns) % columns;
+    for (let band = 0; band < bands; band++) {
+      const color = data[column * bands + band] * 4;
+      const pixel = ((bands - 1 - band) * columns + column) * 4;
+      pixels[pixel] = table[color];
+      pixels[pixel + 1] = table[color + 1];
+      pixels[pixel + 2] = table[color + 2];
+      pixels[pixel + 3] = table[color + 3];
+    }
+  }
+  if (image.count !== history.count) image.ctx.putImageData(image.image, 0, 0);
+  image.count = history.count;
+  return image;
+};
+
+// Maps the unit square (u: oldest to newest, v: high to low frequency) onto the rect so
+// the newest column enters from the opposite side of the scroll direction
+const DIRECTION_TRANSFORMS: Record<ScrollDirection, (x: number, y: number, w: number, h: number) => [number, number, number, number, number, number]> = {
+  left: (x, y, w, h) => [w, 0, 0, h, x, y],
+  right: (x, y, w, h) => [-w, 0, 0, h, x + w, y],
+  up: (x, y, w, h) => [0, h, -w, 0, x + w, y],
+  down: (x, y, w, h) => [0, -h, -w, 0, x + w, y + h],
+};
+
+export const drawSpectrogram = (
+  ctx: SceneContext,
+  image: SpectrogramImage,
+  history: SpectrogramHistory,
+  direction: ScrollDirection,
+  x: number, y: number, w: number, h: number
+) => {
+  const { columns, bands, head } = history;
+  // Columns written so far, oldest first: [head, columns) then [0, head) once the ring has wrapped
+  const filled = Math.min(columns, history.count);
+  const parts = filled < columns ? [[0, filled]] : [[head, columns - head], [0, head]];
+  ctx.save();
+  ctx.transform(...DIRECTION_TRANSFORMS[direction](x, y, w, h));
+  let u = (columns - filled) / columns; // an unfilled history starts empty on the old side
+  for (const [start, length] of parts) {
+    if (length > 0) ctx.drawImage(image.canvas, start, 0, length, bands, u, 0, length / columns, 1);
+    u += length / columns;
+  }
+  ctx.restore();
+};
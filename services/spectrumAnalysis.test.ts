@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { createSpectrumAnalyser, getWindowGain } from './spectrumAnalysis';
+
+const SAMPLE_RATE = 8000;
+const sine = (hz: number, length: number, amplitude = 1) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+
+describe('createSpectrumAnalyser', () => {
+  it('puts a sine centred on a bin at the window\'s full-scale level', () => {
+    const analyser = createSpectrumAnalyser({ fftSize: 512, window: 'hann' });
+    expect(analyser.binCount).toBe(256);
+    // 15.625 Hz per bin: 1 kHz is bin 64
+    const decibels = analyser.getDecibels([sine(1000, 4096)], 2048);
+    expect(decibels.indexOf(Math.max(...decibels))).toBe(64);
+    expect(decibels[64]).toBeCloseTo(20 * Math.log10(getWindowGain('hann') / 2), 1);
+  });
+
+  it('mixes channels evenly by default, or with the given gains', () => {
+    const analyser = createSpectrumAnalyser({ fftSize: 512, window: 'blackman' });
+    const tone = sine(1000, 4096);
+    const silence = new Float32Array(4096);
+    const full = analyser.getDecibels([tone], 2048)[64];
+    expect(analyser.getDecibels([tone, silence], 2048)[64]).toBeCloseTo(full - 6.02, 1);
+    expect(analyser.getDecibels([tone, silence], 2048, undefined, [1, 0])[64]).toBeCloseTo(full, 4);
+    // Identical channels cancel in a side mix
+    expect(analyser.getDecibels([tone, tone], 2048, undefined, [0.5, -0.5])[64]).toBe(-Infinity);
+  });
+
+  it('reads zeros outside the buffer', () => {
+    const analyser = createSpectrumAnalyser({ fftSize: 512, window: 'hann' });
+    const tone = sine(1000, 4096);
+    expect(analyser.getDecibels([tone], -1000).every(db => db === -Infinity)).toBe(true);
+    expect(analyser.getDecibels([tone], 4096 + 256)[64]).toBe(-Infinity);
+    // Half the window in the buffer: about half the level
+    expect(analyser.getDecibels([tone], 4096)[64]).toBeCloseTo(analyser.getDecibels([tone], 2048)[64] - 6.02, 0);
+  });
+});
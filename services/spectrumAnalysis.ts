@@ -0,0 +1,119 @@
+import { FftSize, WindowFunction } from '../types';
+
+// Spectrum analysis straight from decoded PCM, used by both the live preview and
+// offline renders. Unlike AnalyserNode there is no smoothing or 8-bit quantisation,
+// so the spectrum at a given timestamp is always the same no matter when it is asked for.
+// Mapping the float dB output to bar heights is amplitudeScale's job.
+
+export interface SpectrumAnalysisOptions {
+  fftSize: FftSize;
+  window: WindowFunction;
+}
+
+export interface SpectrumAnalyser {
+  options: SpectrumAnalysisOptions;
+  binCount: number; // fftSize / 2
+  // Magnitude in dB per bin for the window centred on `position` (a sample index).
+  // The channels are mixed with `mix` (one gain each), by default an even downmix.
+  getDecibels: (channels: Float32Array[], position: number, out?: Float32Array, mix?: number[]) => Float32Array;
+}
+
+export const getChannels = (buffer: AudioBuffer): Float32Array[] =>
+  Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+
+// Cosine-sum windows: w[n] = a0 - a1 cos(2πn/N) + a2 cos(4πn/N) - a3 cos(6πn/N)
+const WINDOW_COEFFICIENTS: Record<WindowFunction, number[]> = {
+  'rectangular': [1],
+  'hann': [0.5, 0.5],
+  'hamming': [0.54, 0.46],
+  'blackman': [0.42, 0.5, 0.08], // AnalyserNode's window
+  'blackman-harris': [0.35875, 0.48829, 0.14128, 0.01168],
+};
+
+// Mean of the window: a full-scale sine centred on a bin reads 20·log10(gain / 2) dB
+export const getWindowGain = (type: WindowFunction) => WINDOW_COEFFICIENTS[type][0];
+
+const createWindow = (type: WindowFunction, size: number) => {
+  const coefficients = WINDOW_COEFFICIENTS[type];
+  const window = new Float32Array(size);
+  for (let n = 0; n < size; n++) {
+    let w = 0;
+    coefficients.forEach((a, k) => { w += (k % 2 === 0 ? a : -a) * Math.cos((2 * Math.PI * k * n) / size); });
+    window[n] = w;
+  }
+  return window;
+};
+
+const createBitReversal = (size: number) => {
+  const bits = Math.log2(size);
+  const table = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let reversed = 0;
+    for (let b = 0; b < bits; b++) reversed |= ((i >> b) & 1) << (bits - 1 - b);
+    table[i] = reversed;
+  }
+  return table;
+};
+
+// In-place iterative radix-2 FFT
+const transform = (re: Float32Array, im: Float32Array, cos: Float32Array, sin: Float32Array) => {
+  const size = re.length;
+  for (let length = 2; length <= size; length *= 2) {
+    const half = length / 2;
+    const step = size / length;
+    for (let start = 0; start < size; start += length) {
+      for (let k = 0; k < half; k++) {
+        const wr = cos[k * step];
+        const wi = -sin[k * step];
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+export const createSpectrumAnalyser = (options: SpectrumAnalysisOptions): SpectrumAnalyser => {
+  const { fftSize } = options;
+  const binCount = fftSize / 2;
+  const window = createWindow(options.window, fftSize);
+  const bitReversal = createBitReversal(fftSize);
+  const cos = new Float32Array(binCount);
+  const sin = new Float32Array(binCount);
+  for (let k = 0; k < binCount; k++) {
+    cos[k] = Math.cos((2 * Math.PI * k) / fftSize);
+    sin[k] = Math.sin((2 * Math.PI * k) / fftSize);
+  }
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+
+  const getDecibels = (channels: Float32Array[], position: number, out = new Float32Array(binCount), mix?: number[]) => {
+    // Mixed window, zero outside the buffer, written in bit-reversed order
+    const start = Math.round(position) - binCount;
+    const length = channels[0]?.length ?? 0;
+    for (let n = 0; n < fftSize; n++) {
+      const i = start + n;
+      let sample = 0;
+      if (i >= 0 && i < length) {
+        for (let c = 0; c < channels.length; c++) sample += channels[c][i] * (mix ? mix[c] : 1 / channels.length);
+      }
+      re[bitReversal[n]] = sample * window[n];
+      im[bitReversal[n]] = 0;
+    }
+    transform(re, im, cos, sin);
+
+    // Scaled by 1/N like AnalyserNode; amplitudeScale turns this into dBFS
+    for (let k = 0; k < binCount; k++) {
+      const magnitude = Math.hypot(re[k], im[k]) / fftSize;
+      out[k] = magnitude > 0 ? 20 * Math.log10(magnitude) : -Infinity;
+    }
+    return out;
+  };
+
+  return { options, binCount, getDecibels };
+};
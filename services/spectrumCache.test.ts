@@ -0,0 +1,89 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getTrackSpectrum, loadSpectrumAt, getSpectrumLevels, SpectrumCacheParams } from './spectrumCache';
+import { withStore } from './database';
+import { decodeTrack } from './audioSegments';
+import { DEFAULT_VISUAL_SETTINGS } from '../constants';
+
+vi.mock('./audioSegments', async importOriginal => ({
+  ...await importOriginal<typeof import('./audioSegments')>(),
+  decodeTrack: vi.fn(),
+}));
+
+// 320 samples per frame, 15.625 Hz per bin: 12 s is 300 frames, two chunks
+const PARAMS: SpectrumCacheParams = { fftSize: 512, window: 'hann', sampleRate: 8000, fps: 25, channels: ['mid'] };
+const SECONDS = 12;
+const settings = { ...DEFAULT_VISUAL_SETTINGS, minDecibels: -60, maxDecibels: 0, frequencyWeighting: 'none' as const, autoGain: false };
+
+// A full-scale sine, and a file whose bytes (and so hash) are unique to it
+const createTrack = (hz: number) => {
+  const data = Float32Array.from({ length: SECONDS * PARAMS.sampleRate }, (_, i) => Math.sin((2 * Math.PI * hz * i) / PARAMS.sampleRate));
+  const buffer = {
+    length: data.length,
+    sampleRate: PARAMS.sampleRate,
+    numberOfChannels: 1,
+    duration: SECONDS,
+    getChannelData: () => data,
+  } as unknown as AudioBuffer;
+  return { buffer, file: new File([`sine ${hz}`], `${hz}.wav`) };
+};
+
+const getStored = (key: string) => withStore<unknown>('spectrumCache', 'readonly', store => store.get(key));
+
+// Bin with the highest level at a sample, once its chunk is loaded
+const getLoudestBin = async (spectrum: Awaited<ReturnType<typeof getTrackSpectrum>>, sample: number) => {
+  await loadSpectrumAt(spectrum, sample);
+  const levels = getSpectrumLevels(spectrum, sample, settings);
+  return levels.indexOf(Math.max(...levels));
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.mocked(decodeTrack).mockReset();
+});
+
+describe('getTrackSpectrum', () => {
+  it('stores the analysis and reads it back without decoding again', async () => {
+    const { buffer, file } = createTrack(1000);
+    const spectrum = await getTrackSpectrum(file, PARAMS, buffer);
+    expect(spectrum.frameCount).toBe(300);
+    expect(await getStored(spectrum.key)).toBeDefined();
+
+    const cached = await getTrackSpectrum(file, PARAMS);
+    expect(decodeTrack).not.toHaveBeenCalled();
+    expect(cached.frameCount).toBe(300);
+    expect(Array.from(cached.rms.slice(0, 3))).toEqual(Array.from(spectrum.rms.slice(0, 3)));
+    // 1 kHz is bin 64, in both chunks
+    expect(await getLoudestBin(cached, 0)).toBe(64);
+    expect(await getLoudestBin(cached, 290 * 320)).toBe(64);
+  });
+
+  it('keeps chunks that could not be saved for the session, but caches no summary', async () => {
+    const { buffer, file } = createTrack(2000);
+    const put = IDBObjectStore.prototype.put;
+    vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(function (this: IDBObjectStore, value, key) {
+      if (String(key).endsWith('#1')) throw new DOMException("Quota exceeded", 'QuotaExceededError');
+      return put.call(this, value, key);
+    });
+
+    const spectrum = await getTrackSpectrum(file, PARAMS, buffer);
+    expect(await getStored(spectrum.key)).toBeUndefined();
+    expect(await getLoudestBin(spectrum, 290 * 320)).toBe(128);
+  });
+
+  it('analyses a track again when a cached chunk has gone missing', async () => {
+    const { buffer, file } = createTrack(500);
+    vi.mocked(decodeTrack).mockResolvedValue(buffer);
+    const spectrum = await getTrackSpectrum(file, PARAMS);
+    await withStore('spectrumCache', 'readwrite', store => store.delete(`${spectrum.key}#0`));
+
+    expect(await getLoudestBin(spectrum, 0)).toBe(32);
+    expect(decodeTrack).toHaveBeenCalledTimes(2);
+    expect(await getStored(`${spectrum.key}#0`)).toBeDefined();
+    expect(await getStored(spectrum.key)).toBeDefined();
+  });
+});
@@ -0,0 +1,303 @@
+import { VisualSettings, FftSize, WindowFunction, StereoMode } from '../types';
+import { STEREO_SPECTRUM_STYLES } from '../constants';
+import { withStore } from './database';
+import { createSpectrumAnalyser, getChannels } from './spectrumAnalysis';
+import { scaleAmplitudes } from './amplitudeScale';
+import { getFrameSample } from './timelineRender';
+import { decodeTrack } from './audioSegments';
+
+// Per-track analysis computed once and kept in IndexedDB, keyed by the file's
+// content hash and everything that changes the result. The preview draws from it at
+// any timestamp and renders look frames up instead of running the FFT again.
+// dB values are stored, so changing the amplitude mapping doesn't invalidate the cache.
+// They are stored compactly (one byte per bin) in chunks of frames, and only the chunks
+// around the playhead or the frame being rendered are kept in memory.
+
+const STORE = 'spectrumCache';
+
+// Frames analysed between yields, so a long track doesn't freeze the preview
+const FRAMES_PER_YIELD = 200;
+// Frames per stored chunk: about 8 seconds at 30 fps
+const CHUNK_FRAMES = 256;
+// Chunks kept in memory over all tracks; the least recently read is dropped first
+const MAX_RESIDENT_CHUNKS = 32;
+
+// Stored dB codes: 0 is silence, 1-255 are DECIBEL_FLOOR to 0 dB in DECIBEL_STEP steps.
+// Analysed values run from 0 dB (a full-scale signal before the dBFS offset) down;
+// anything quieter than the floor stays below every bar's range.
+const DECIBEL_FLOOR = -127;
+const DECIBEL_STEP = 0.5;
+const DECIBEL_CODES = Float32Array.from({ length: 256 }, (_, code) => code === 0 ? -Infinity : DECIBEL_FLOOR + (code - 1) * DECIBEL_STEP);
+
+const encodeDecibels = (decibels: Float32Array, out: Uint8Array) => {
+  for (let k = 0; k < decibels.length; k++) {
+    const code = Math.round((decibels[k] - DECIBEL_FLOOR) / DECIBEL_STEP) + 1;
+    out[k] = code < 1 ? 0 : Math.min(255, code); // Below the floor, -Infinity included, is silence
+  }
+};
+
+// 'mid' is the mono mix (L+R)/2 and 'side' is (L-R)/2; a mono file has no side
+export type SpectrumChannel = 'mid' | 'left' | 'right' | 'side';
+
+export interface SpectrumCacheParams {
+  fftSize: FftSize;
+  window: WindowFunction;
+  sampleRate: number; // tracks are decoded at this rate
+  fps: number; // one analysis frame per video frame
+  channels: SpectrumChannel[]; // the ones the look draws (see getSpectrumChannels); one more byte per bin each
+}
+
+// The analysis' summary, kept in memory; the spectra themselves are read chunk by chunk
+export interface TrackSpectrum extends SpectrumCacheParams {
+  key: string; // cache record, and prefix of its chunks' records
+  length: number; // decoded length in samples
+  frameCount: number;
+  binCount: number;
+  chunkFrames: number;
+  rms: Float32Array; // per frame, linear 0-1, over the samples until the next frame
+  peak: Float32Array; // per frame, linear 0-1
+}
+
+// dB codes per channel analysed: chunkFrames frames (fewer in the last chunk) × binCount,
+// frame after frame
+type SpectrumChunk = Partial<Record<SpectrumChannel, Uint8Array>>;
+
+const fileHashes = new WeakMap<File, Promise<string>>();
+const pendingAnalyses = new Map<string, Promise<TrackSpectrum>>();
+// Insertion order is recency: reads move a chunk to the end. null: the record could not be read.
+const residentChunks = new Map<string, SpectrumChunk | null>();
+const pendingChunks = new Map<string, Promise<void>>();
+// Chunks that could not be saved (quota) stay here for the session instead
+const unsavedChunks = new Map<string, SpectrumChunk>();
+// The file behind each analysis key, to analyse it again if its chunks go missing
+const trackFiles = new Map<string, File>();
+const recoveries = new Map<string, Promise<void>>();
+
+// Bytes hashed at a time, so a large file is never read into memory whole
+const HASH_SLICE_BYTES = 8 * 1024 * 1024;
+
+const toHex = (digest: ArrayBuffer) => Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+
+// SHA-256 over the SHA-256 of each slice of the file's contents, computed once per File
+export const hashFile = (file: File): Promise<string> => {
+  let hash = fileHashes.get(file);
+  if (!hash) {
+    hash = (async () => {
+      const digests = new Uint8Array(Math.max(1, Math.ceil(file.size / HASH_SLICE_BYTES)) * 32);
+      for (let offset = 0, i = 0; offset < file.size || i === 0; offset += HASH_SLICE_BYTES, i++) {
+        const slice = await file.slice(offset, offset + HASH_SLICE_BYTES).arrayBuffer();
+        digests.set(new Uint8Array(await crypto.subtle.digest('SHA-256', slice)), i * 32);
+      }
+      return toHex(await crypto.subtle.digest('SHA-256', digests));
+    })();
+    fileHashes.set(file, hash);
+  }
+  return hash;
+};
+
+const getCacheKey = (hash: string, params: SpectrumCacheParams) =>
+  [hash, params.sampleRate, params.fps, params.fftSize, params.window, params.channels.join('+')].join(':');
+
+const getChunkKey = (key: string, chunk: number) => `${key}#${chunk}`;
+
+// What each analysed channel mixes, as getDecibels' channels and mix; a mono track is both sides
+export const getChannelSources = (channels: Float32Array[]): Record<SpectrumChannel, [Float32Array[], number[] | undefined]> => {
+  const left = channels[0];
+  const right = channels[1] ?? channels[0];
+  return {
+    mid: [channels, undefined],
+    left: [[left], [1]],
+    right: [[right], [1]],
+    side: [[left, right], [0.5, -0.5]],
+  };
+};
+
+const STEREO_CHANNELS: Record<StereoMode, SpectrumChannel[]> = {
+  'mono': ['mid'],
+  'lr-mirror': ['left', 'right'],
+  'side-by-side': ['left', 'right'],
+  'mid-side': ['mid', 'side'],
+};
+
+// The channels a look draws, first to second; one unless its style can show stereo
+export const getSpectrumChannels = (settings: VisualSettings): SpectrumChannel[] =>
+  STEREO_CHANNELS[STEREO_SPECTRUM_STYLES.includes(settings.spectrumStyle) ? settings.stereoMode : 'mono'];
+
+export const getSpectrumCacheParams = (settings: VisualSettings, sampleRate: number, fps: number): SpectrumCacheParams => ({
+  fftSize: settings.fftSize,
+  window: settings.fftWindow,
+  sampleRate,
+  fps,
+  channels: getSpectrumChannels(settings),
+});
+
+const yieldToEventLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Whether the chunk reached the store
+const saveChunk = async (key: string, chunk: SpectrumChunk) => {
+  try {
+    await withStore(STORE, 'readwrite', store => store.put(chunk, key));
+    return true;
+  } catch (e) {
+    console.warn("Spectrum chunk save failed", e); // Still usable this session, just not cached
+    unsavedChunks.set(key, chunk);
+    return false;
+  }
+};
+
+// Analyses the track and stores its spectra chunk by chunk under `key`. Returns the summary,
+// and whether every chunk was saved: only then may the summary be cached.
+export const analyseTrack = async (buffer: AudioBuffer, params: SpectrumCacheParams, key: string): Promise<{ spectrum: TrackSpectrum; saved: boolean }> => {
+  const { sampleRate, fps } = params;
+  const analyser = createSpectrumAnalyser({ fftSize: params.fftSize, window: params.window });
+  const { binCount } = analyser;
+  const channels = getChannels(buffer);
+
+  let frameCount = Math.ceil(buffer.length * fps / sampleRate);
+  while (frameCount > 0 && getFrameSample(frameCount - 1, sampleRate, fps) >= buffer.length) frameCount--;
+  const sources = getChannelSources(channels);
+  const mixes = params.channels.map(channel => [channel, ...sources[channel]] as const);
+  const decibels = new Float32Array(binCount);
+  const rms = new Float32Array(frameCount);
+  const peak = new Float32Array(frameCount);
+  let saved = true;
+
+  let chunk: SpectrumChunk = {};
+  for (let frame = 0; frame < frameCount; frame++) {
+    const chunkFrame = frame % CHUNK_FRAMES;
+    if (chunkFrame === 0) {
+      const frames = Math.min(CHUNK_FRAMES, frameCount - frame);
+      chunk = Object.fromEntries(mixes.map(([channel]) => [channel, new Uint8Array(frames * binCount)]));
+    }
+    const start = getFrameSample(frame, sampleRate, fps);
+    for (const [channel, sources, mix] of mixes) {
+      analyser.getDecibels(sources, start, decibels, mix);
+      encodeDecibels(decibels, chunk[channel]!.subarray(chunkFrame * binCount, (chunkFrame + 1) * binCount));
+    }
+
+    const end = Math.min(buffer.length, getFrameSample(frame + 1, sampleRate, fps));
+    let sumSquares = 0;
+    let max = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) {
+        sumSquares += channel[i] * channel[i];
+        max = Math.max(max, Math.abs(channel[i]));
+      }
+    }
+    rms[frame] = Math.sqrt(sumSquares / Math.max(1, (end - start) * channels.length));
+    peak[frame] = max;
+
+    if (chunkFrame === CHUNK_FRAMES - 1 || frame === frameCount - 1) {
+      saved = await saveChunk(getChunkKey(key, Math.floor(frame / CHUNK_FRAMES)), chunk) && saved;
+    }
+    if (frame % FRAMES_PER_YIELD === FRAMES_PER_YIELD - 1) await yieldToEventLoop();
+  }
+
+  return { spectrum: { ...params, key, length: buffer.length, frameCount, binCount, chunkFrames: CHUNK_FRAMES, rms, peak }, saved };
+};
+
+// The cached analysis, or a new one (saved for next time). Pass the decoded track if
+// the caller has it at params.sampleRate; otherwise the file is decoded here.
+// The summary is written after every chunk and only if they all were, so its presence
+// means the chunks are complete (unless the browser evicted some; see loadChunk).
+export const getTrackSpectrum = async (file: File, params: SpectrumCacheParams, buffer?: AudioBuffer): Promise<TrackSpectrum> => {
+  const key = getCacheKey(await hashFile(file), params);
+  trackFiles.set(key, file);
+  const pending = pendingAnalyses.get(key);
+  if (pending) return pending;
+
+  const analysis = (async () => {
+    const cached = await withStore<TrackSpectrum | undefined>(STORE, 'readonly', store => store.get(key));
+    if (cached) return cached;
+    const { spectrum, saved } = await analyseTrack(buffer ?? await decodeTrack(file, params.sampleRate), params, key);
+    if (saved) {
+      await withStore(STORE, 'readwrite', store => store.put(spectrum, key))
+        .catch(e => console.warn("Spectrum cache save failed", e)); // Analysed again next session
+    }
+    return spectrum;
+  })();
+  pendingAnalyses.set(key, analysis);
+  try {
+    return await analysis;
+  } finally {
+    pendingAnalyses.delete(key);
+  }
+};
+
+// The analysis frame nearest to a sample of the track
+export const getSpectrumFrame = (spectrum: TrackSpectrum, sample: number) =>
+  Math.min(spectrum.frameCount - 1, Math.max(0, Math.round(sample * spectrum.fps / spectrum.sampleRate)));
+
+const readChunk = (key: string) => withStore<SpectrumChunk | undefined>(STORE, 'readonly', store => store.get(key));
+
+// A cached summary whose chunk is gone (storage evicted or partly cleared): the summary is
+// dropped and the track analysed again, once per session, which rewrites its chunks
+const recoverSpectrum = (spectrum: TrackSpectrum) => {
+  let recovery = recoveries.get(spectrum.key);
+  const file = trackFiles.get(spectrum.key);
+  if (!recovery && file) {
+    console.warn("Spectrum cache is missing chunks; analysing again", file.name);
+    recovery = withStore(STORE, 'readwrite', store => store.delete(spectrum.key))
+      .then(() => getTrackSpectrum(file, {
+        fftSize: spectrum.fftSize, window: spectrum.window, sampleRate: spectrum.sampleRate, fps: spectrum.fps, channels: spectrum.channels,
+      }))
+      .then(() => {}, e => console.warn("Spectrum re-analysis failed", file.name, e));
+    recoveries.set(spectrum.key, recovery);
+  }
+  return recovery;
+};
+
+const loadChunk = (spectrum: TrackSpectrum, chunk: number): Promise<void> => {
+  const key = getChunkKey(spectrum.key, chunk);
+  if (residentChunks.has(key) || chunk * spectrum.chunkFrames >= spectrum.frameCount) return Promise.resolve();
+  let pending = pendingChunks.get(key);
+  if (!pending) {
+    pending = (async () => {
+      let data = unsavedChunks.get(key) ?? await readChunk(key);
+      if (!data) {
+        await recoverSpectrum(spectrum);
+        data = unsavedChunks.get(key) ?? await readChunk(key);
+      }
+      return data;
+    })().catch(e => {
+      console.warn("Spectrum chunk read failed", e);
+      return undefined;
+    }).then(data => {
+      residentChunks.set(key, data ?? null);
+      for (const oldest of residentChunks.keys()) {
+        if (residentChunks.size <= MAX_RESIDENT_CHUNKS) break;
+        residentChunks.delete(oldest);
+      }
+    }).finally(() => pendingChunks.delete(key));
+    pendingChunks.set(key, pending);
+  }
+  return pending;
+};
+
+// Brings the frames at a sample of the track into memory, reading the next chunk ahead.
+// Resolves once getSpectrumLevels can read that sample; sequential readers (renders)
+// await it before each frame, the preview requests it and draws silence until it lands.
+export const loadSpectrumAt = (spectrum: TrackSpectrum, sample: number): Promise<void> => {
+  if (spectrum.frameCount === 0) return Promise.resolve();
+  const chunk = Math.floor(getSpectrumFrame(spectrum, sample) / spectrum.chunkFrames);
+  loadChunk(spectrum, chunk + 1);
+  return loadChunk(spectrum, chunk);
+};
+
+// Levels (0-1 per bin) of a channel at a sample of the track, through the look's amplitude
+// mapping. A channel that wasn't analysed reads as the first one that was. Frames not
+// in memory (see loadSpectrumAt) read as silence.
+export const getSpectrumLevels = (spectrum: TrackSpectrum, sample: number, settings: VisualSettings, out = new Float32Array(spectrum.binCount), channel: SpectrumChannel = 'mid') => {
+  if (spectrum.frameCount === 0) return out.fill(0);
+  const frame = getSpectrumFrame(spectrum, sample);
+  const key = getChunkKey(spectrum.key, Math.floor(frame / spectrum.chunkFrames));
+  const chunk = residentChunks.get(key);
+  if (!chunk) return out.fill(0);
+  // Most recently read last, so eviction drops the chunks nobody is reading
+  residentChunks.delete(key);
+  residentChunks.set(key, chunk);
+  const codes = chunk[channel] ?? chunk[spectrum.channels[0]]!;
+  const offset = (frame % spectrum.chunkFrames) * spectrum.binCount;
+  for (let k = 0; k < spectrum.binCount; k++) out[k] = DECIBEL_CODES[codes[offset + k]];
+  return scaleAmplitudes(out, spectrum, settings, out);
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { normalizePolylines, getPathLength, samplePath } from './spectrumPath';
+
+// An L: 100 units along x, a gap, then 100 down y
+const L_SHAPE = [
+  [{ x: 0, y: 0 }, { x: 100, y: 0 }],
+  [{ x: 100, y: 50 }, { x: 100, y: 150 }],
+];
+
+describe('normalizePolylines', () => {
+  it('centres the shapes and scales their longer side to 1', () => {
+    const { path, center, size } = normalizePolylines(L_SHAPE);
+    expect(center).toEqual({ x: 50, y: 75 });
+    expect(size).toBe(150);
+    expect(path.polylines[0][0].x).toBeCloseTo(-1 / 3);
+    expect(path.polylines[0][0].y).toBeCloseTo(-0.5);
+    expect(path.polylines[1][1].y).toBeCloseTo(0.5);
+  });
+
+  it('drops single points, which have no direction', () => {
+    const { path } = normalizePolylines([[{ x: 0, y: 0 }], [{ x: 0, y: 0 }, { x: 10, y: 0 }]]);
+    expect(path.polylines.length).toBe(1);
+  });
+});
+
+describe('getPathLength', () => {
+  it('sums the polylines, not the gaps between them', () => {
+    expect(getPathLength(normalizePolylines(L_SHAPE).path)).toBeCloseTo(200 / 150);
+  });
+});
+
+describe('samplePath', () => {
+  const { path } = normalizePolylines(L_SHAPE);
+
+  it('interpolates within a polyline, the normal to the left of its direction', () => {
+    const sample = samplePath(path, 0.25);
+    expect(sample.x).toBeCloseTo(-1 / 3 + 0.25);
+    expect(sample.y).toBeCloseTo(-0.5);
+    expect(sample.angle).toBeCloseTo(-Math.PI / 2);
+  });
+
+  it('continues on the next polyline past the end of one', () => {
+    const sample = samplePath(path, 0.75);
+    expect(sample.x).toBeCloseTo(1 / 3);
+    expect(sample.y).toBeCloseTo(-1 / 6 + (0.75 - 2 / 3));
+    expect(sample.angle).toBeCloseTo(0);
+  });
+
+  it('clamps to the ends', () => {
+    expect(samplePath(path, -1)).toMatchObject({ x: expect.closeTo(-1 / 3), y: expect.closeTo(-0.5) });
+    expect(samplePath(path, 10)).toMatchObject({ x: expect.closeTo(1 / 3), y: expect.closeTo(0.5) });
+  });
+
+  it('writes into the given sample', () => {
+    const out = { x: 0, y: 0, angle: 0 };
+    expect(samplePath(path, 0.5, out)).toBe(out);
+  });
+});
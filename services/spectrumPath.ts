@@ -0,0 +1,81 @@
+import { PathPoint, SpectrumPath } from '../types';
+
+// Laying the spectrum out along a path: bands sit at equal distances along the
+// polylines (gaps between them don't count) and bars stand on the path's normal.
+
+// Fits polylines (any units) into a SpectrumPath. Also returns where they were: the
+// bounding box centre and its longer side, in the input's units.
+export const normalizePolylines = (polylines: PathPoint[][]) => {
+  const points = polylines.flat();
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+  const size = Math.max(maxX - minX, maxY - minY) || 1;
+  const center = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+  const path: SpectrumPath = {
+    polylines: polylines
+      .filter(line => line.length > 1)
+      .map(line => line.map(p => ({ x: (p.x - center.x) / size, y: (p.y - center.y) / size }))),
+  };
+  return { path, center, size };
+};
+
+interface PathMeasure {
+  distances: Float32Array[]; // per polyline, distance along the path at each point
+  length: number;
+}
+
+const measures = new WeakMap<SpectrumPath, PathMeasure>();
+
+const measurePath = (path: SpectrumPath): PathMeasure => {
+  let measure = measures.get(path);
+  if (measure) return measure;
+  let length = 0;
+  const distances = path.polylines.map(line => {
+    const along = new Float32Array(line.length);
+    along[0] = length;
+    for (let i = 1; i < line.length; i++) {
+      length += Math.hypot(line[i].x - line[i - 1].x, line[i].y - line[i - 1].y);
+      along[i] = length;
+    }
+    return along;
+  });
+  measure = { distances, length };
+  measures.set(path, measure);
+  return measure;
+};
+
+export const getPathLength = (path: SpectrumPath) => measurePath(path).length;
+
+export interface PathSample {
+  x: number;
+  y: number;
+  angle: number; // of the normal, radians; to the left of the path's direction
+}
+
+// Point and normal at a distance along the path
+export const samplePath = (path: SpectrumPath, distance: number, out: PathSample = { x: 0, y: 0, angle: 0 }): PathSample => {
+  const { distances } = measurePath(path);
+  for (let l = 0; l < path.polylines.length; l++) {
+    const line = path.polylines[l];
+    const along = distances[l];
+    if (distance > along[along.length - 1] && l < path.polylines.length - 1) continue;
+    // Binary search for the segment containing the distance
+    let lo = 0;
+    let hi = along.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (along[mid] <= distance) lo = mid; else hi = mid;
+    }
+    const a = line[lo];
+    const b = line[hi];
+    const span = along[hi] - along[lo];
+    const t = span > 0 ? Math.min(1, Math.max(0, (distance - along[lo]) / span)) : 0;
+    out.x = a.x + (b.x - a.x) * t;
+    out.y = a.y + (b.y - a.y) * t;
+    out.angle = Math.atan2(-(b.x - a.x), b.y - a.y);
+    return out;
+  }
+  return out;
+};
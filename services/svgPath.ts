@@ -0,0 +1,59 @@
+import { PathPoint, SpectrumPath } from '../types';
+import { normalizePolylines } from './spectrumPath';
+
+// SVG import for the path style (main thread only: measuring needs a rendered SVG).
+// Every shape is sampled into polylines in the document's user space, transforms
+// included, so curves arrive as plain points the worker can lay bands along.
+
+const SHAPES = 'path, polyline, polygon, line, rect, circle, ellipse';
+// Shapes under these are definitions, clips or masks, not drawn outlines
+const NOT_DRAWN = 'defs, clipPath, mask, symbol, marker, pattern';
+// Points taken over all shapes together, shared out by length
+const TOTAL_SAMPLES = 2000;
+// A jump this many sample steps long is a move-to between subpaths, not a segment
+const BREAK_FACTOR = 3;
+
+const sampleShape = (shape: SVGGeometryElement, samples: number): PathPoint[][] => {
+  const length = shape.getTotalLength();
+  const matrix = shape.getCTM();
+  const step = length / samples;
+  const polylines: PathPoint[][] = [];
+  let line: PathPoint[] = [];
+  let last: DOMPoint | null = null;
+  for (let i = 0; i <= samples; i++) {
+    let point = shape.getPointAtLength(i * step);
+    if (matrix) point = point.matrixTransform(matrix);
+    if (last && Math.hypot(point.x - last.x, point.y - last.y) > step * BREAK_FACTOR) {
+      polylines.push(line);
+      line = [];
+    }
+    line.push({ x: point.x, y: point.y });
+    last = point;
+  }
+  polylines.push(line);
+  return polylines;
+};
+
+// Reads the shapes of an SVG file into a SpectrumPath; throws if there are none to lay bands along
+export const importSvgPath = async (file: File): Promise<SpectrumPath> => {
+  const parsed = new DOMParser().parseFromString(await file.text(), 'image/svg+xml');
+  const root = parsed.documentElement;
+  if (root.nodeName !== 'svg') throw new Error("Not an SVG document");
+
+  // Off-screen but rendered, so lengths and transforms are computed
+  const svg = document.importNode(root, true) as unknown as SVGSVGElement;
+  svg.style.cssText = 'position:absolute;left:-10000px;top:0;visibility:hidden';
+  document.body.appendChild(svg);
+  try {
+    const shapes = Array.from(svg.querySelectorAll<SVGGeometryElement>(SHAPES))
+      .filter(shape => !shape.closest(NOT_DRAWN) && shape.getTotalLength() > 0);
+    const total = shapes.reduce((sum, shape) => sum + shape.getTotalLength(), 0);
+    const polylines = shapes.flatMap(shape =>
+      sampleShape(shape, Math.max(2, Math.round((shape.getTotalLength() / total) * TOTAL_SAMPLES))));
+    const { path } = normalizePolylines(polylines);
+    if (path.polylines.length === 0) throw new Error("No drawn shapes to lay the spectrum along");
+    return path;
+  } finally {
+    svg.remove();
+  }
+};
@@ -0,0 +1,88 @@
+import { VisualSettings } from '../types';
+import { SceneContext } from './scene';
+import { SpectrogramHistory, parseHexColor } from './spectrogram';
+
+// "Mountain range" style: the spectrogram history drawn as rows of a receding terrain,
+// newest in front. A hand-rolled perspective in plain Canvas 2D, so it draws the same
+// in the preview and in headless renders without a GPU.
+
+const mixColor = (near: string, far: string, t: number) => {
+  const a = parseHexColor(near);
+  const b = parseHexColor(far);
+  const [r, g, bl] = a.map((value, i) => Math.round(value + (b[i] - value) * t));
+  return `rgb(${r}, ${g}, ${bl})`;
+};
+
+// Draws into the box (x centred on centerX, bottom edge at centerY + height / 2): rows rise
+// towards the horizon with the camera tilt and shrink with the perspective
+export const drawTerrain = (
+  ctx: SceneContext,
+  history: SpectrogramHistory,
+  settings: VisualSettings,
+  colorCycle: number,
+  centerX: number, centerY: number, width: number, height: number
+) => {
+  const { columns, bands, data, head } = history;
+  const rows = Math.min(columns, history.count);
+  if (rows === 0 || bands < 2) return;
+
+  const tilt = (settings.terrainTilt * Math.PI) / 180;
+  const farScale = 1 / (1 + settings.terrainPerspective);
+  const nearY = centerY + height / 2;
+  const rise = height * Math.sin(tilt); // how far the last row sits above the first
+  const amplitude = height * Math.cos(tilt); // full-level peak on the front row
+  const filled = settings.terrainMode === 'filled';
+
+  let points = new Float32Array(bands * 2);
+  let farther = new Float32Array(bands * 2); // the row drawn before, for wireframe columns
+
+  ctx.save();
+  // Back to front, so filled rows hide the ones behind them
+  for (let row = rows - 1; row >= 0; row--) {
+    const depth = columns > 1 ? row / (columns - 1) : 0;
+    const scale = 1 / (1 + depth * settings.terrainPerspective);
+    const baseline = nearY - (rise * (1 - scale)) / (1 - farScale || 1);
+    const column = (((head - 1 - row) % columns) + columns) % columns;
+    for (let band = 0; band < bands; band++) {
+      points[band * 2] = centerX + (band / (bands - 1) - 0.5) * width * scale;
+      points[band * 2 + 1] = baseline - (data[column * bands + band] / 255) * amplitude * scale;
+    }
+
+    const color = settings.spectrumColorMode === 'rainbow'
+      ? `hsl(${(colorCycle + depth * 240) % 360}, 100%, 60%)`
+      : settings.terrainGradient ? mixColor(settings.spectrumColor, settings.terrainFarColor, depth) : settings.spectrumColor;
+    const alpha = settings.spectrumOpacity * (1 - settings.terrainFog * depth);
+
+    const traceRidge = () => {
+      ctx.beginPath();
+      ctx.moveTo(points[0], points[1]);
+      for (let band = 1; band < bands; band++) ctx.lineTo(points[band * 2], points[band * 2 + 1]);
+    };
+    if (filled) {
+      // Opaque underneath to hide the rows behind, tinted with the row's colour
+      traceRidge();
+      ctx.lineTo(points[(bands - 1) * 2], baseline);
+      ctx.lineTo(points[0], baseline);
+      ctx.closePath();
+      ctx.globalAlpha = settings.spectrumOpacity;
+      ctx.fillStyle = '#000';
+      ctx.fill();
+      ctx.globalAlpha = alpha * 0.3;
+      ctx.fillStyle = color;
+      ctx.fill();
+    }
+    traceRidge();
+    if (!filled && row < rows - 1) {
+      for (let band = 0; band < bands; band++) {
+        ctx.moveTo(points[band * 2], points[band * 2 + 1]);
+        ctx.lineTo(farther[band * 2], farther[band * 2 + 1]);
+      }
+    }
+    ctx.globalAlpha = alpha;
+    ctx.strokeStyle = color;
+    ctx.stroke();
+
+    [points, farther] = [farther, points];
+  }
+  ctx.restore();
+};
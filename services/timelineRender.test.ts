@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { getTimelineRange, getFrameSample } from './timelineRender';
+
+describe('getTimelineRange', () => {
+  it('covers the frames between two times and the audio under them', () => {
+    expect(getTimelineRange(10, 40, 48000, 30)).toEqual({ startFrame: 300, endFrame: 1200, startSample: 480000, endSample: 1920000 });
+  });
+
+  it('rounds to the nearest frames and cuts audio on them', () => {
+    const range = getTimelineRange(1.01, 2.02, 44100, 60);
+    expect(range.startFrame).toBe(61);
+    expect(range.endFrame).toBe(121);
+    expect(range.startSample).toBe(getFrameSample(61, 44100, 60));
+    expect(range.endSample).toBe(getFrameSample(121, 44100, 60));
+  });
+
+  it('always holds at least one frame', () => {
+    const range = getTimelineRange(5, 5, 48000, 30);
+    expect(range.endFrame).toBe(range.startFrame + 1);
+  });
+});
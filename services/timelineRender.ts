@@ -0,0 +1,131 @@
+import { VisualSettings } from '../types';
+import { RenderWorkerClient } from './renderWorkerClient';
+import { RenderControl } from './renderControl';
+import { SpectrumFrame, RenderStats } from './renderProtocol';
+import { SEGMENT_SECONDS, decodeTrack, getPlanarSlice } from './audioSegments';
+import { getTrackSpectrum, getSpectrumLevels, getSpectrumCacheParams, getSpectrumChannels, loadSpectrumAt } from './spectrumCache';
+import { getChannels } from './spectrumAnalysis';
+import { getWaveformLength, getWaveformWindow } from './waveform';
+import { getCoverArt, usesCoverArt } from './coverArt';
+
+// Spectrum frames sent to the render worker per round trip
+const FRAME_BATCH_SIZE = 30;
+
+// The output timeline: every loop of the playlist, one decoded track at a time
+export interface TimelineSource {
+  files: File[]; // in timeline order, loops expanded
+  trackSamples: number[]; // decoded length per timeline track, filled in as tracks are decoded
+  sampleRate: number;
+  fps: number;
+  numberOfChannels: number;
+  settings: VisualSettings; // the look being rendered: analysis and amplitude mapping
+}
+
+// Frames [startFrame, endFrame) and audio samples [startSample, endSample) of the timeline
+export interface TimelineRange {
+  startFrame: number;
+  endFrame: number;
+  startSample: number;
+  endSample: number;
+}
+
+// Output sample at which a frame is shown
+export const getFrameSample = (frame: number, sampleRate: number, fps: number) => Math.round(frame * sampleRate / fps);
+
+// The frames between two output times and the audio under them
+export const getTimelineRange = (startSeconds: number, endSeconds: number, sampleRate: number, fps: number): TimelineRange => {
+  const startFrame = Math.round(startSeconds * fps);
+  const endFrame = Math.max(startFrame + 1, Math.round(endSeconds * fps));
+  return {
+    startFrame,
+    endFrame,
+    startSample: getFrameSample(startFrame, sampleRate, fps),
+    endSample: getFrameSample(endFrame, sampleRate, fps),
+  };
+};
+
+// Captures spectra for the range and streams them with its audio to one worker.
+// Tracks entirely outside the range are skipped without decoding once their length is known.
+export const renderTimelineRange = async (
+  source: TimelineSource,
+  range: TimelineRange,
+  worker: RenderWorkerClient,
+  control: RenderControl,
+  onProgress: (stats: RenderStats, audioSamples: number) => void, // audioSamples: sent within the range
+  onTrack: (trackIndex: number) => void = () => {}
+) => {
+  const { files, trackSamples, sampleRate, fps, numberOfChannels } = source;
+  const { settings } = source;
+  const channels = getSpectrumChannels(settings);
+  const waveformLength = getWaveformLength(settings, sampleRate);
+  const frameSample = (frame: number) => getFrameSample(frame, sampleRate, fps);
+  const segmentSamples = SEGMENT_SECONDS * sampleRate;
+  // Earliest timeline sample needed for video or audio, and the first one past the range
+  const startSample = Math.min(frameSample(range.startFrame), range.startSample);
+  const endSample = Math.max(range.endSample, frameSample(range.endFrame - 1) + 1);
+  let pendingFrames: SpectrumFrame[] = [];
+  let timelineSamples = 0; // output position of the current track's first sample
+  let nextFrame = range.startFrame;
+  let audioSamples = 0;
+
+  const flushFrames = async () => {
+    if (pendingFrames.length === 0) return;
+    const frames = pendingFrames;
+    pendingFrames = [];
+    onProgress(await worker.renderFrames(frames), audioSamples);
+  };
+
+  for (let track = 0; track < files.length && timelineSamples < endSample; track++) {
+    const knownSamples = trackSamples[track];
+    if (knownSamples !== undefined && timelineSamples + knownSamples <= startSample) {
+      timelineSamples += knownSamples;
+      continue;
+    }
+
+    onTrack(track);
+    await control.checkpoint();
+    const buffer = await decodeTrack(files[track], sampleRate);
+    trackSamples[track] = buffer.length;
+    if (usesCoverArt(settings)) await worker.setCover(await getCoverArt(files[track]));
+    // Analysed once per track and cached, so later renders of it skip the FFT
+    const spectrum = await getTrackSpectrum(files[track], getSpectrumCacheParams(settings, sampleRate, fps), buffer);
+    const trackEnd = Math.min(buffer.length, endSample - timelineSamples);
+    const pcm = getChannels(buffer);
+
+    for (let segStart = Math.max(0, startSample - timelineSamples); segStart < trackEnd; segStart += segmentSamples) {
+      await control.checkpoint();
+      const segEnd = Math.min(trackEnd, segStart + segmentSamples);
+
+      // Spectra for the frames whose timestamp falls inside this segment
+      while (nextFrame < range.endFrame && frameSample(nextFrame) < timelineSamples + segEnd) {
+        await control.checkpoint();
+        const sample = frameSample(nextFrame) - timelineSamples;
+        await loadSpectrumAt(spectrum, sample);
+        const data = channels.map(channel => getSpectrumLevels(spectrum, sample, settings, undefined, channel));
+        const waveform = waveformLength > 0 ? getWaveformWindow(pcm, sample, waveformLength) : null;
+        pendingFrames.push({ time: nextFrame / fps, data, waveform });
+        nextFrame++;
+        // Wait for the worker between batches so spectra don't pile up in memory
+        if (pendingFrames.length >= FRAME_BATCH_SIZE) await flushFrames();
+      }
+      await flushFrames();
+
+      // Audio for the same span, in 1 second chunks
+      const audioEnd = Math.min(segEnd, range.endSample - timelineSamples);
+      for (let offset = Math.max(segStart, range.startSample - timelineSamples); offset < audioEnd; offset += sampleRate) {
+        await control.checkpoint();
+        const chunkEnd = Math.min(audioEnd, offset + sampleRate);
+        const stats = await worker.encodeAudio({
+          timestamp: ((timelineSamples + offset) / sampleRate) * 1000000,
+          numberOfFrames: chunkEnd - offset,
+          numberOfChannels,
+          data: getPlanarSlice(buffer, offset, chunkEnd, numberOfChannels)
+        });
+        audioSamples = timelineSamples + chunkEnd - range.startSample;
+        onProgress(stats, audioSamples);
+      }
+    }
+
+    timelineSamples += buffer.length;
+  }
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { findTrigger, getWaveformLength, getWaveformWindow } from './waveform';
+import { DEFAULT_VISUAL_SETTINGS } from '../constants';
+
+describe('getWaveformLength', () => {
+  it('gives the oscilloscope twice its span and the vectorscope its persistence', () => {
+    expect(getWaveformLength({ ...DEFAULT_VISUAL_SETTINGS, spectrumStyle: 'oscilloscope', scopeWindow: 20 }, 48000)).toBe(1920);
+    expect(getWaveformLength({ ...DEFAULT_VISUAL_SETTINGS, spectrumStyle: 'vectorscope', phosphorPersistence: 50 }, 48000)).toBe(2400);
+    expect(getWaveformLength({ ...DEFAULT_VISUAL_SETTINGS, spectrumStyle: 'bar' }, 48000)).toBe(0);
+  });
+});
+
+describe('getWaveformWindow', () => {
+  const left = Float32Array.from([1, 2, 3, 4, 5]);
+  const right = Float32Array.from([-1, -2, -3, -4, -5]);
+
+  it('cuts the samples just before the end', () => {
+    expect(getWaveformWindow([left, right], 4, 2).map(channel => Array.from(channel))).toEqual([[3, 4], [-3, -4]]);
+  });
+
+  it('pads with silence outside the track', () => {
+    expect(Array.from(getWaveformWindow([left, right], 1, 3)[0])).toEqual([0, 0, 1]);
+    expect(Array.from(getWaveformWindow([left, right], 7, 3)[0])).toEqual([5, 0, 0]);
+  });
+
+  it('uses the one channel of a mono track for both sides', () => {
+    const [l, r] = getWaveformWindow([left], 5, 2);
+    expect(Array.from(r)).toEqual(Array.from(l));
+  });
+});
+
+describe('findTrigger', () => {
+  const sine = (length: number, period: number, phase = 0) =>
+    Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * (i + phase)) / period));
+
+  it('starts at the last rising zero crossing of the first half', () => {
+    // Half a sample of phase keeps the crossings between samples: at 100, 200, 300...
+    expect(findTrigger(sine(800, 100, 0.5))).toBe(400); // the first half ends at 400
+    expect(findTrigger(sine(800, 100, 30.5))).toBe(370);
+  });
+
+  it('runs free without a crossing', () => {
+    expect(findTrigger(new Float32Array(800).fill(0.5))).toBe(400);
+  });
+
+  it('ignores noise around zero', () => {
+    const noise = Float32Array.from({ length: 800 }, (_, i) => (i % 2 ? 0.005 : -0.005));
+    expect(findTrigger(noise)).toBe(400);
+  });
+});
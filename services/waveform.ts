@@ -0,0 +1,51 @@
+import { VisualSettings, SpectrumStyle } from '../types';
+
+// Time-domain input for the oscilloscope and vectorscope: the stereo samples just before
+// a frame, cut from decoded PCM by the preview and by renders alike. Both styles are drawn
+// from this window alone (the vectorscope's persistence is the trace's age, not earlier
+// frames), so they need no scene state and come out the same at any range boundary.
+
+export const TIME_DOMAIN_STYLES: SpectrumStyle[] = ['oscilloscope', 'vectorscope'];
+
+// Samples per frame the look needs, 0 if it doesn't draw a waveform. The oscilloscope gets
+// twice its span: the first half to find the trigger in, the second to draw after it.
+export const getWaveformLength = (settings: VisualSettings, sampleRate: number) => {
+  switch (settings.spectrumStyle) {
+    case 'oscilloscope': return Math.round((2 * settings.scopeWindow * sampleRate) / 1000);
+    case 'vectorscope': return Math.round((settings.phosphorPersistence * sampleRate) / 1000);
+    default: return 0;
+  }
+};
+
+// [left, right] for samples [end - length, end) of the decoded channels, zero outside them
+export const getWaveformWindow = (channels: Float32Array[], end: number, length: number): Float32Array[] => {
+  const sources = [channels[0], channels[1] ?? channels[0]];
+  const start = Math.round(end) - length;
+  return sources.map(source => {
+    const window = new Float32Array(length);
+    const from = Math.max(0, start);
+    const to = Math.min(source?.length ?? 0, start + length);
+    if (to > from) window.set(source.subarray(from, to), from - start);
+    return window;
+  });
+};
+
+// Level the signal must drop below before a rising zero crossing counts, so noise
+// around zero doesn't retrigger the sweep
+const TRIGGER_HYSTERESIS = 0.01;
+
+// Start of the sweep in the mono mix: the last rising zero crossing in the first half,
+// or the middle (free-running) if there is none
+export const findTrigger = (mono: Float32Array) => {
+  const half = Math.floor(mono.length / 2);
+  let armed = false;
+  let trigger = -1;
+  for (let i = 1; i <= half; i++) {
+    if (mono[i - 1] < -TRIGGER_HYSTERESIS) armed = true;
+    if (armed && mono[i - 1] < 0 && mono[i] >= 0) {
+      trigger = i;
+      armed = false;
+    }
+  }
+  return trigger < 0 ? half : trigger;
+};
@@ -5,10 +5,32 @@ export interface AudioTrack {
   duration: number; // in seconds
 }
 
-export type SpectrumStyle = 'none' | 'bar' | 'mirror-bar' | 'mini-bar' | 'circle' | 'line' | 'wave';
+export type SpectrumStyle = 'none' | 'bar' | 'mirror-bar' | 'mini-bar' | 'circle' | 'line' | 'wave' | 'spectrogram' | 'oscilloscope' | 'vectorscope' | 'terrain' | 'path';
 export type FilterPreset = 'original' | 'cinematic' | 'vintage' | 'noir' | 'dreamy' | 'vivid';
 export type ParticleEffect = 'none' | 'rain' | 'snow' | 'sparkle' | 'heart' | 'embers' | 'fireflies' | 'petals' | 'dust' | 'fog' | 'bokeh' | 'confetti';
 export type ScreenEffect = 'none' | 'glitch' | 'grain' | 'bloom' | 'vhs' | 'light-leak' | 'lens-flare' | 'light-sweep';
+export type FftSize = 512 | 1024 | 2048 | 4096 | 8192 | 16384;
+export type WindowFunction = 'rectangular' | 'hann' | 'hamming' | 'blackman' | 'blackman-harris';
+export type FrequencyScale = 'linear' | 'log' | 'mel' | 'bark';
+export type BandAggregation = 'peak' | 'average';
+export type FrequencyWeighting = 'none' | 'a-weighting' | 'pink';
+export type StereoMode = 'mono' | 'lr-mirror' | 'side-by-side' | 'mid-side';
+export type SpectrogramColorMap = 'magma' | 'inferno' | 'viridis' | 'grayscale' | 'mono';
+export type ScrollDirection = 'left' | 'right' | 'up' | 'down';
+export type TerrainMode = 'wireframe' | 'filled';
+export type DiscImageSource = 'none' | 'logo' | 'background' | 'cover';
+export type RadialBarDirection = 'outward' | 'inward' | 'both';
+
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+// Polylines centred on 0 with the longer side of their bounding box 1; drawn at
+// spectrumPosition, spectrumWidth wide (see spectrumPath)
+export interface SpectrumPath {
+  polylines: PathPoint[][];
+}
 
 export interface VisualSettings {
   // Spectrum Style
@@ -27,6 +49,64 @@ export interface VisualSettings {
   maxHeight: number; // Scale factor for height
   spectrumThickness: number; // Line thickness
 
+  // Spectrum Analysis
+  fftSize: FftSize;
+  fftWindow: WindowFunction;
+
+  // Amplitude Mapping
+  minDecibels: number; // dBFS floor, shown as silence
+  maxDecibels: number; // dBFS ceiling, shown at full height
+  frequencyWeighting: FrequencyWeighting;
+  autoGain: boolean; // normalise each track's loudness before the floor/ceiling mapping
+
+  // Frequency Mapping (FFT bins -> frequencyRange bands)
+  frequencyScale: FrequencyScale;
+  minFrequency: number; // Hz
+  maxFrequency: number; // Hz, capped at Nyquist
+  bandAggregation: BandAggregation;
+
+  // Stereo (bar, mirror-bar and circle styles)
+  stereoMode: StereoMode;
+
+  // Spectrogram
+  spectrogramColorMap: SpectrogramColorMap; // 'mono' uses spectrumColor
+  spectrogramDirection: ScrollDirection; // the way the history scrolls
+  spectrogramHistory: number; // seconds shown
+
+  // Oscilloscope & Vectorscope
+  scopeWindow: number; // ms of waveform the oscilloscope sweeps
+  phosphorPersistence: number; // ms of trace the vectorscope keeps, fading with age
+
+  // Circle
+  discImage: DiscImageSource; // picture clipped into the centre disc; 'cover' is each track's embedded art
+  discRotation: number; // disc turns per minute, negative for anticlockwise
+  circleBarDirection: RadialBarDirection;
+  bassPulse: number; // 0-1, how much the bass swells the radius
+  circleStartAngle: number; // degrees clockwise from 12 o'clock where the bars start
+  circleArc: number; // degrees the bars span, 360 for a full circle
+  discGlow: number; // 0-1, bass-driven glow inside the ring
+
+  // Path
+  spectrumPath: SpectrumPath | null; // imported SVG or drawn polyline the bands are laid along
+  pathBarDirection: RadialBarDirection; // outward is to the left of the path's direction
+
+  // Terrain
+  terrainMode: TerrainMode;
+  terrainDepth: number; // rows of history, one per 1/30 s
+  terrainTilt: number; // camera tilt in degrees: low looks along the ground, high looks down on it
+  terrainPerspective: number; // how much the farthest row shrinks: 1 / (1 + value)
+  terrainGradient: boolean; // fade the line colour from spectrumColor to terrainFarColor with depth
+  terrainFarColor: string;
+  terrainFog: number; // 0-1, fades the far rows
+
+  // Bar Dynamics
+  barAttack: number; // ms time constant while a band rises (0 = instant)
+  barRelease: number; // ms time constant while it falls
+  noiseGate: number; // 0-1, levels below are treated as silence
+  peakCaps: boolean;
+  peakHold: number; // ms a cap stays at its peak
+  peakFalloff: number; // cap gravity, full heights per second²
+
   // Background
   backgroundImage: File | null;
   filterPreset: FilterPreset;
@@ -48,6 +128,9 @@ export interface VisualSettings {
   screenEffect: ScreenEffect;
   screenEffectIntensity: number; // 0-1
 
+  // Seed for everything random (particles, glitch, flare), so a project renders the same every time
+  seed: number; // uint32
+
   // Logo
   logoImage: File | null;
   logoPosition: { x: number; y: number };
@@ -56,9 +139,28 @@ export interface VisualSettings {
   logoThreshold: number; // Tolerance for bg removal
 }
 
+export type AudioBitrate = 96000 | 128000 | 192000 | 256000 | 320000;
+
 export interface EncodingSettings {
   loopCount: 1 | 2 | 3;
-  audioBitrate: 96000 | 128000 | 192000;
+  audioBitrate: AudioBitrate;
+}
+
+export type FrameRate = 24 | 25 | 30 | 50 | 60;
+export type AudioSampleRate = 44100 | 48000;
+
+// Render dialog's advanced encoder panel
+export interface AdvancedEncoderSettings {
+  fps: FrameRate;
+  videoBitrate: number | null; // bits/s; null uses the quality preset scaled to the output resolution
+  bitrateMode: VideoEncoderBitrateMode;
+  quantizer: number; // 0-51 on the H.264/H.265 scale, used in quantizer mode
+  keyframeInterval: number; // seconds
+  hardwareAcceleration: HardwareAcceleration;
+  latencyMode: LatencyMode;
+  audioBitrate: AudioBitrate;
+  sampleRate: AudioSampleRate;
+  workerCount: number; // >1 renders time ranges in parallel workers and stitches them (MP4 only)
 }
 
 export interface SetupImages {
@@ -66,8 +168,21 @@ export interface SetupImages {
   logoImage: File | null;
 }
 
+export type OutputContainer = 'mp4' | 'webm';
+export type VideoCodecId = 'hevc' | 'avc' | 'vp9' | 'av1';
+export type AudioCodecId = 'aac' | 'opus';
+
+export interface OutputFormat {
+  container: OutputContainer;
+  videoCodec: VideoCodecId; // Preferred; the exporter falls back if unsupported
+  audioCodec: AudioCodecId;
+  fragmented: boolean; // MP4 only: moof/mdat fragments keep a partial file playable and resumable
+}
+
+export type OutputResolution = '720p' | '1080p' | '1440p' | '2160p' | 'vertical' | 'square';
+
 export interface AppState {
   playlist: AudioTrack[];
   visualSettings: VisualSettings;
-  outputQuality: '720p' | '1080p';
+  outputQuality: OutputResolution;
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { parseTime } from './utils';
+
+describe('parseTime', () => {
+  it('reads seconds, mm:ss and hh:mm:ss', () => {
+    expect(parseTime('45')).toBe(45);
+    expect(parseTime('01:30')).toBe(90);
+    expect(parseTime('1:02:03')).toBe(3723);
+    expect(parseTime(' 00:30 ')).toBe(30);
+  });
+
+  it('keeps fractional seconds', () => {
+    expect(parseTime('00:01.5')).toBe(1.5);
+  });
+
+  it('rejects malformed input', () => {
+    expect(parseTime('')).toBeNull();
+    expect(parseTime('1:2:3:4')).toBeNull();
+    expect(parseTime('00:-5')).toBeNull();
+    expect(parseTime('1m30s')).toBeNull();
+    expect(parseTime('01::30')).toBeNull();
+  });
+});
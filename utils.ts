@@ -16,6 +16,19 @@ export const formatTimeLong = (seconds: number): string => {
   return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 };
 
+// Parses "ss", "mm:ss" or "hh:mm:ss" into seconds; null if malformed
+export const parseTime = (text: string): number | null => {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) return null;
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+};
+
 export const getAudioDuration = async (file: File): Promise<number> => {
   return new Promise((resolve, reject) => {
     const audio = document.createElement('audio');
@@ -29,6 +42,27 @@ export const getAudioDuration = async (file: File): Promise<number> => {
   });
 };
 
+// Object URLs of downloads, kept until releaseDownloads: a large download may read from
+// its URL for as long as the save dialog stays open and the copy takes, and the page is
+// never told when it is done
+const downloadUrls: string[] = [];
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  downloadUrls.push(url);
+};
+
+export const hasHeldDownloads = () => downloadUrls.length > 0;
+
+// Lets the blobs of earlier downloads go; only once the user says those downloads are done
+export const releaseDownloads = () => {
+  downloadUrls.splice(0).forEach(url => URL.revokeObjectURL(url));
+};
+
 export const generateTimelineText = (playlist: AudioTrack[]): string => {
   let currentTime = 0;
   let text = '';